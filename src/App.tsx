@@ -6,7 +6,17 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Settings from "./pages/Settings";
+import Stores from "./pages/Stores";
+import Pantry from "./pages/Pantry";
+import History from "./pages/History";
+import Recipes from "./pages/Recipes";
+import MealPlan from "./pages/MealPlan";
+import Budget from "./pages/Budget";
+import Receipt from "./pages/Receipt";
+import OAuthCallback from "./pages/OAuthCallback";
 import NotFound from "./pages/NotFound";
+import { VaultGate } from "./components/VaultGate";
+import { OAUTH_CALLBACK_PATH } from "./services/googleOAuth";
 
 const queryClient = new QueryClient();
 
@@ -15,14 +25,24 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/settings" element={<Settings />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <VaultGate>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/stores" element={<Stores />} />
+            <Route path="/pantry" element={<Pantry />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/recipes" element={<Recipes />} />
+            <Route path="/meal-plan" element={<MealPlan />} />
+            <Route path="/budget" element={<Budget />} />
+            <Route path="/receipt" element={<Receipt />} />
+            <Route path={OAUTH_CALLBACK_PATH} element={<OAuthCallback />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </VaultGate>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,63 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { GroceryItem } from '@/services/groceryListBackend';
+import { mergeQuantityText } from '@/lib/duplicates';
+
+export interface DuplicatePrompt {
+  item: GroceryItem;
+  existing: GroceryItem;
+  // True when the item is already a row of its own, e.g. added by Alexa
+  onList: boolean;
+}
+
+interface DuplicateItemDialogProps {
+  prompt: DuplicatePrompt | null;
+  onMerge: (prompt: DuplicatePrompt) => void;
+  onKeepBoth: (prompt: DuplicatePrompt) => void;
+}
+
+const describe = (item: GroceryItem): string =>
+  item.quantity ? `"${item.name}" (${item.quantity})` : `"${item.name}"`;
+
+export const DuplicateItemDialog: React.FC<DuplicateItemDialogProps> = ({ prompt, onMerge, onKeepBoth }) => {
+  const merged = prompt ? mergeQuantityText([prompt.existing.quantity, prompt.item.quantity]) : '';
+
+  return (
+    // Only the two buttons close it, so every prompt gets exactly one answer
+    <AlertDialog open={!!prompt}>
+      <AlertDialogContent className="max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Already on your list</AlertDialogTitle>
+          <AlertDialogDescription>
+            {prompt && (
+              <>
+                {prompt.onList
+                  ? `${describe(prompt.item)} was just added, but ${describe(prompt.existing)} is already on your list.`
+                  : `${describe(prompt.existing)} is already on your list.`}
+                {' '}Merge them into one row{merged ? ` of ${merged}` : ''}?
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => prompt && onKeepBoth(prompt)}>Keep both</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => prompt && onMerge(prompt)}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            Merge
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
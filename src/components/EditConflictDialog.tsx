@@ -0,0 +1,86 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { GroceryItem } from '@/services/groceryListBackend';
+import { formatPrice } from '@/lib/prices';
+
+export interface EditConflict {
+  // The edit made on this device
+  mine: GroceryItem;
+  // The item as it is stored now, or null when it was removed elsewhere
+  theirs: GroceryItem | null;
+}
+
+interface EditConflictDialogProps {
+  conflict: EditConflict | null;
+  onKeepMine: (conflict: EditConflict) => void;
+  onKeepTheirs: (conflict: EditConflict) => void;
+}
+
+const FIELDS: { label: string; value: (item: GroceryItem) => string }[] = [
+  { label: 'Item', value: (item) => item.name },
+  { label: 'Quantity', value: (item) => item.quantity || '-' },
+  { label: 'Category', value: (item) => item.category || '-' },
+  { label: 'Checked off', value: (item) => (item.checked ? 'Yes' : 'No') },
+  { label: 'Price', value: (item) => (item.price !== undefined ? formatPrice(item.price) : '-') },
+];
+
+export const EditConflictDialog: React.FC<EditConflictDialogProps> = ({ conflict, onKeepMine, onKeepTheirs }) => {
+  const theirs = conflict?.theirs;
+  const differences = conflict && theirs
+    ? FIELDS.filter((field) => field.value(conflict.mine) !== field.value(theirs))
+    : [];
+
+  return (
+    // Only the two buttons close it, so every conflict gets exactly one answer
+    <AlertDialog open={!!conflict}>
+      <AlertDialogContent className="max-w-sm">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Changed on another device</AlertDialogTitle>
+          <AlertDialogDescription>
+            {conflict && (theirs
+              ? `"${theirs.name}" was edited somewhere else while you were changing it. Which version should stay?`
+              : `"${conflict.mine.name}" was removed somewhere else while you were changing it. Put it back with your changes?`)}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {differences.length > 0 && (
+          <div className="text-sm">
+            <div className="grid grid-cols-3 gap-2 pb-1 border-b text-xs font-medium text-gray-500">
+              <span />
+              <span>Yours</span>
+              <span>On the list</span>
+            </div>
+            {conflict && theirs && differences.map((field) => (
+              <div key={field.label} className="grid grid-cols-3 gap-2 py-1.5 border-b last:border-b-0">
+                <span className="text-gray-500">{field.label}</span>
+                <span className="text-gray-900 break-words">{field.value(conflict.mine)}</span>
+                <span className="text-gray-900 break-words">{field.value(theirs)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => conflict && onKeepTheirs(conflict)}>
+            {theirs ? 'Keep theirs' : 'Leave it removed'}
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => conflict && onKeepMine(conflict)}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {theirs ? 'Keep mine' : 'Put it back'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
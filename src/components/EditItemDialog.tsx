@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { GroceryItem } from '@/services/groceryListBackend';
+import { normalizeQuantityText } from '@/lib/quantity';
+import { CATEGORIES } from '@/lib/categorizer';
+import { parsePrice } from '@/lib/prices';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_FIELD_LENGTH = 50;
+
+type ItemErrors = Partial<Record<'name' | 'quantity' | 'category' | 'price', string>>;
+
+const validateItem = (item: GroceryItem): ItemErrors => {
+  const errors: ItemErrors = {};
+  if (!item.name) {
+    errors.name = 'Please enter an item name';
+  } else if (item.name.length > MAX_NAME_LENGTH) {
+    errors.name = `Keep the name under ${MAX_NAME_LENGTH} characters`;
+  }
+  if ((item.quantity || '').length > MAX_FIELD_LENGTH) {
+    errors.quantity = `Keep the quantity under ${MAX_FIELD_LENGTH} characters`;
+  }
+  if ((item.category || '').length > MAX_FIELD_LENGTH) {
+    errors.category = `Keep the category under ${MAX_FIELD_LENGTH} characters`;
+  }
+  return errors;
+};
+
+interface EditItemDialogProps {
+  item: GroceryItem | null;
+  onSave: (item: GroceryItem) => void;
+  onClose: () => void;
+}
+
+export const EditItemDialog: React.FC<EditItemDialogProps> = ({ item, onSave, onClose }) => {
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [category, setCategory] = useState('');
+  const [price, setPrice] = useState('');
+  const [errors, setErrors] = useState<ItemErrors>({});
+
+  useEffect(() => {
+    if (item) {
+      setName(item.name);
+      setQuantity(item.quantity || '');
+      setCategory(item.category || '');
+      setPrice(item.price !== undefined ? String(item.price) : '');
+      setErrors({});
+    }
+  }, [item]);
+
+  const handleSave = () => {
+    if (!item) {
+      return;
+    }
+
+    const parsedPrice = parsePrice(price);
+    const updated: GroceryItem = {
+      ...item,
+      name: name.trim(),
+      quantity: normalizeQuantityText(quantity),
+      category: category.trim(),
+      price: parsedPrice ?? undefined,
+    };
+    const validationErrors = validateItem(updated);
+    if (price.trim() && parsedPrice === null) {
+      validationErrors.price = 'Enter a price such as 2.49';
+    }
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    onSave(updated);
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSave();
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Edit item</DialogTitle>
+          <DialogDescription>Changes are saved to your list straight away.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="editName" className="text-sm font-medium">
+              Item *
+            </Label>
+            <Input
+              id="editName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyPress={handleKeyPress}
+              className="mt-1"
+              autoFocus
+            />
+            {errors.name && <p className="text-xs text-red-600 mt-1">{errors.name}</p>}
+          </div>
+
+          <div>
+            <Label htmlFor="editQuantity" className="text-sm font-medium">
+              Quantity
+            </Label>
+            <Input
+              id="editQuantity"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="e.g. 2, 500 g"
+              className="mt-1"
+            />
+            {errors.quantity && <p className="text-xs text-red-600 mt-1">{errors.quantity}</p>}
+          </div>
+
+          <div>
+            <Label htmlFor="editCategory" className="text-sm font-medium">
+              Category
+            </Label>
+            <Input
+              id="editCategory"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="e.g. Dairy & Eggs"
+              className="mt-1"
+              list="categorySuggestions"
+            />
+            <datalist id="categorySuggestions">
+              {CATEGORIES.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+            {errors.category && <p className="text-xs text-red-600 mt-1">{errors.category}</p>}
+          </div>
+
+          <div>
+            <Label htmlFor="editPrice" className="text-sm font-medium">
+              Price per Unit
+            </Label>
+            <Input
+              id="editPrice"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="e.g. 2.49"
+              inputMode="decimal"
+              className="mt-1"
+            />
+            {errors.price ? (
+              <p className="text-xs text-red-600 mt-1">{errors.price}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                Per unit of the quantity, e.g. per kg for 2 kg. Leave empty to use the last price paid.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion';
+import type { CategoryGroup } from '@/lib/categorizer';
+import type { GroceryItem } from '@/services/groceryListBackend';
+
+// Droppable IDs for group headers; item IDs are UUIDs so these never clash
+export const GROUP_DROP_PREFIX = 'group:';
+
+interface GroupSectionProps {
+  group: CategoryGroup<GroceryItem>;
+  renderItem: (item: GroceryItem) => React.ReactNode;
+}
+
+const GroupSection: React.FC<GroupSectionProps> = ({ group, renderItem }) => {
+  // Dropping an item on a header moves it to the end of that group, which also
+  // works when the group is collapsed
+  const { setNodeRef, isOver } = useDroppable({ id: `${GROUP_DROP_PREFIX}${group.category}` });
+
+  return (
+    <AccordionItem value={group.label} className="border-none">
+      <div ref={setNodeRef} className={`rounded-md px-1 ${isOver ? 'bg-green-100' : ''}`}>
+        <AccordionTrigger className="py-2 text-sm text-gray-700 hover:no-underline">
+          <span className="flex items-center gap-2">
+            {group.label}
+            <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full">
+              {group.items.length}
+            </span>
+          </span>
+        </AccordionTrigger>
+      </div>
+      <AccordionContent className="pb-2">
+        <SortableContext
+          items={group.items.map(item => item.id)}
+          strategy={verticalListSortingStrategy}
+        >
+          <div className="space-y-3">
+            {group.items.map(renderItem)}
+          </div>
+        </SortableContext>
+      </AccordionContent>
+    </AccordionItem>
+  );
+};
+
+interface GroupedItemListProps {
+  groups: CategoryGroup<GroceryItem>[];
+  collapsedGroups: string[];
+  onCollapsedGroupsChange: (collapsed: string[]) => void;
+  renderItem: (item: GroceryItem) => React.ReactNode;
+}
+
+export const GroupedItemList: React.FC<GroupedItemListProps> = ({
+  groups,
+  collapsedGroups,
+  onCollapsedGroupsChange,
+  renderItem,
+}) => (
+  <Accordion
+    type="multiple"
+    value={groups.map(group => group.label).filter(label => !collapsedGroups.includes(label))}
+    onValueChange={(open) => onCollapsedGroupsChange(
+      groups.map(group => group.label).filter(label => !open.includes(label))
+    )}
+    className="space-y-2"
+  >
+    {groups.map(group => (
+      <GroupSection key={group.label} group={group} renderItem={renderItem} />
+    ))}
+  </Accordion>
+);
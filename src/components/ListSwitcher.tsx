@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { Check, ChevronDown, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { NamedListBackend } from '@/services/groceryListBackend';
+
+// Sheets allows up to 100 characters in a tab name
+const MAX_LIST_NAME_LENGTH = 100;
+// Reserved for cleared items rather than a list of its own
+const RESERVED_LIST_NAMES = ['archive'];
+
+interface ListSwitcherProps {
+  backend: NamedListBackend;
+  scope: string;
+  activeList: string;
+  // Renaming or deleting the active list would strand its queued changes
+  hasPendingChanges: boolean;
+  onSelectList: (name: string) => void;
+}
+
+export const ListSwitcher: React.FC<ListSwitcherProps> = ({
+  backend,
+  scope,
+  activeList,
+  hasPendingChanges,
+  onSelectList,
+}) => {
+  const [dialogMode, setDialogMode] = useState<'create' | 'rename' | null>(null);
+  const [listName, setListName] = useState('');
+  const [nameError, setNameError] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: listNames = [] } = useQuery({
+    queryKey: ['groceryLists', scope],
+    queryFn: backend.getListNames,
+  });
+
+  // The active list may not be in the fetched names yet (or was removed elsewhere)
+  const lists = listNames.includes(activeList) ? listNames : [activeList, ...listNames];
+
+  const openDialog = (mode: 'create' | 'rename') => {
+    if (mode === 'rename' && hasPendingChanges) {
+      toast({
+        title: "Changes still syncing",
+        description: "Wait for your pending changes to sync before renaming this list.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setListName(mode === 'rename' ? activeList : '');
+    setNameError('');
+    setDialogMode(mode);
+  };
+
+  const validateName = (name: string): string => {
+    if (!name) {
+      return 'Please enter a list name';
+    }
+    if (name.length > MAX_LIST_NAME_LENGTH) {
+      return `Keep the name under ${MAX_LIST_NAME_LENGTH} characters`;
+    }
+    if (RESERVED_LIST_NAMES.includes(name.toLowerCase())) {
+      return `"${name}" is reserved for cleared items`;
+    }
+    if (lists.some((existing) => existing.toLowerCase() === name.toLowerCase() && existing !== activeList)) {
+      return 'A list with this name already exists';
+    }
+    return '';
+  };
+
+  const handleSaveName = async () => {
+    const name = listName.trim();
+    const error = validateName(name);
+    if (error) {
+      setNameError(error);
+      return;
+    }
+    if (dialogMode === 'rename' && name === activeList) {
+      setDialogMode(null);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (dialogMode === 'create') {
+        await backend.createList(name);
+        toast({
+          title: "List created",
+          description: `${name} is ready for items.`,
+        });
+      } else {
+        await backend.renameList(activeList, name);
+        toast({
+          title: "List renamed",
+          description: `${activeList} is now called ${name}.`,
+        });
+      }
+      setDialogMode(null);
+      onSelectList(name);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "The list could not be saved.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+      queryClient.invalidateQueries({ queryKey: ['groceryLists', scope] });
+    }
+  };
+
+  const handleDelete = async () => {
+    const remaining = lists.filter((name) => name !== activeList);
+    try {
+      await backend.deleteList(activeList);
+      toast({
+        title: "List deleted",
+        description: `${activeList} and its items have been removed.`,
+      });
+      onSelectList(remaining[0]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message || "The list could not be deleted.",
+        variant: "destructive",
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ['groceryLists', scope] });
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSaveName();
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex items-center gap-1 text-2xl font-bold text-gray-900 hover:text-green-700 max-w-[14rem]">
+            <span className="truncate">{activeList}</span>
+            <ChevronDown className="h-5 w-5 shrink-0" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Lists</DropdownMenuLabel>
+          {lists.map((name) => (
+            <DropdownMenuItem key={name} onClick={() => name !== activeList && onSelectList(name)}>
+              <Check className={`h-4 w-4 mr-2 ${name === activeList ? '' : 'invisible'}`} />
+              <span className="truncate">{name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openDialog('create')}>
+            <Plus className="h-4 w-4 mr-2" />
+            New list
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openDialog('rename')}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename list
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => setConfirmDelete(true)}
+            disabled={lists.length < 2 || hasPendingChanges}
+            className="text-red-600 focus:text-red-700"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete list
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{dialogMode === 'create' ? 'New list' : 'Rename list'}</DialogTitle>
+            <DialogDescription>
+              Each list is kept on its own tab of your spreadsheet.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Input
+              value={listName}
+              onChange={(e) => setListName(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="e.g. Hardware, Pharmacy"
+              autoFocus
+            />
+            {nameError && <p className="text-xs text-red-600 mt-1">{nameError}</p>}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDialogMode(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveName}
+              disabled={isSaving}
+              className="bg-green-600 hover:bg-green-700 text-white"
+            >
+              {isSaving ? 'Saving...' : dialogMode === 'create' ? 'Create' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {activeList}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tab and every item on it will be removed from your spreadsheet. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { mergeGroup, type DuplicateGroup } from '@/lib/duplicates';
+
+interface MergeDuplicatesDialogProps {
+  groups: DuplicateGroup[] | null;
+  onMerge: (groups: DuplicateGroup[]) => void;
+  onClose: () => void;
+}
+
+export const MergeDuplicatesDialog: React.FC<MergeDuplicatesDialogProps> = ({ groups, onMerge, onClose }) => (
+  <AlertDialog open={!!groups} onOpenChange={(open) => !open && onClose()}>
+    <AlertDialogContent className="max-w-sm">
+      <AlertDialogHeader>
+        <AlertDialogTitle>Merge duplicates</AlertDialogTitle>
+        <AlertDialogDescription>
+          These items are on your list more than once. Merging keeps one row of each with the quantities
+          added up.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+
+      {groups && (
+        <div className="max-h-64 overflow-y-auto divide-y text-sm">
+          {groups.map((group) => {
+            const merged = mergeGroup(group);
+            return (
+              <div key={group.keep.id} className="py-2">
+                <p className="text-gray-900">
+                  {merged.name}
+                  {merged.quantity && <span className="text-gray-500 ml-2">{merged.quantity}</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  From {[group.keep, ...group.duplicates]
+                    .map((item) => (item.quantity ? `${item.name} (${item.quantity})` : item.name))
+                    .join(', ')}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialogFooter>
+        <AlertDialogCancel>Cancel</AlertDialogCancel>
+        <AlertDialogAction
+          onClick={() => groups && onMerge(groups)}
+          className="bg-green-600 hover:bg-green-700"
+        >
+          Merge {groups?.length ?? 0} {groups?.length === 1 ? 'item' : 'items'}
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
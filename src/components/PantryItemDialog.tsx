@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { PantryItem } from '@/services/pantry';
+import { normalizeQuantityText, parseQuantity } from '@/lib/quantity';
+
+interface PantryItemDialogProps {
+  item: PantryItem | null;
+  onSave: (item: PantryItem) => void;
+  onClose: () => void;
+}
+
+export const PantryItemDialog: React.FC<PantryItemDialogProps> = ({ item, onSave, onClose }) => {
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [lowThreshold, setLowThreshold] = useState('');
+  const [errors, setErrors] = useState<Partial<Record<'name' | 'lowThreshold', string>>>({});
+
+  useEffect(() => {
+    if (item) {
+      setName(item.name);
+      setQuantity(item.quantity);
+      setExpiresOn(item.expiresOn || '');
+      setLowThreshold(item.lowThreshold || '');
+      setErrors({});
+    }
+  }, [item]);
+
+  const handleSave = () => {
+    if (!item) {
+      return;
+    }
+
+    const validationErrors: typeof errors = {};
+    if (!name.trim()) {
+      validationErrors.name = 'Please enter an item name';
+    }
+    if (lowThreshold.trim() && !parseQuantity(lowThreshold)) {
+      validationErrors.lowThreshold = 'Use an amount such as 1, 2 cans or 200 g';
+    }
+    if (Object.keys(validationErrors).length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+
+    onSave({
+      ...item,
+      name: name.trim(),
+      quantity: normalizeQuantityText(quantity),
+      expiresOn: expiresOn || undefined,
+      lowThreshold: normalizeQuantityText(lowThreshold) || undefined,
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSave();
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Edit pantry item</DialogTitle>
+          <DialogDescription>Track how much you have and when it goes off.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="pantryName" className="text-sm font-medium">
+              Item *
+            </Label>
+            <Input
+              id="pantryName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyPress={handleKeyPress}
+              className="mt-1"
+              autoFocus
+            />
+            {errors.name && <p className="text-xs text-red-600 mt-1">{errors.name}</p>}
+          </div>
+
+          <div>
+            <Label htmlFor="pantryQuantity" className="text-sm font-medium">
+              On Hand
+            </Label>
+            <Input
+              id="pantryQuantity"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="e.g. 3, 500 g"
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="pantryExpiry" className="text-sm font-medium">
+              Expires On
+            </Label>
+            <Input
+              id="pantryExpiry"
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="pantryThreshold" className="text-sm font-medium">
+              Running Low At
+            </Label>
+            <Input
+              id="pantryThreshold"
+              value={lowThreshold}
+              onChange={(e) => setLowThreshold(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="e.g. 1, 200 g"
+              className="mt-1"
+            />
+            {errors.lowThreshold ? (
+              <p className="text-xs text-red-600 mt-1">{errors.lowThreshold}</p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-1">
+                When you have this much or less, it is added back to your grocery list.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,22 +3,29 @@ import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Trash2, RefreshCw } from 'lucide-react';
-
-interface GroceryItem {
-  id: string;
-  name: string;
-  quantity?: string;
-  category?: string;
-}
+import { Checkbox } from '@/components/ui/checkbox';
+import { Trash2, CloudUpload, Pencil } from 'lucide-react';
+import type { GroceryItem } from '@/services/groceryListBackend';
+import { normalizeQuantityText } from '@/lib/quantity';
+import { formatPrice } from '@/lib/prices';
 
 interface SortableItemProps {
   item: GroceryItem;
   onDelete: (item: GroceryItem) => void;
-  isDeleting: boolean;
+  onToggleChecked: (item: GroceryItem) => void;
+  onEdit: (item: GroceryItem) => void;
+  isPending?: boolean;
+  dragDisabled?: boolean;
 }
 
-export const SortableItem: React.FC<SortableItemProps> = ({ item, onDelete, isDeleting }) => {
+export const SortableItem: React.FC<SortableItemProps> = ({
+  item,
+  onDelete,
+  onToggleChecked,
+  onEdit,
+  isPending = false,
+  dragDisabled = false,
+}) => {
   const {
     attributes,
     listeners,
@@ -26,7 +33,7 @@ export const SortableItem: React.FC<SortableItemProps> = ({ item, onDelete, isDe
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: item.id });
+  } = useSortable({ id: item.id, disabled: dragDisabled });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -37,18 +44,37 @@ export const SortableItem: React.FC<SortableItemProps> = ({ item, onDelete, isDe
     <Card
       ref={setNodeRef}
       style={style}
-      className={`p-4 bg-white shadow-sm hover:shadow-md transition-all duration-200 cursor-grab active:cursor-grabbing ${
-        isDragging ? 'opacity-50 z-50 shadow-lg scale-105' : ''
-      }`}
+      className={`p-4 shadow-sm hover:shadow-md transition-all duration-200 ${
+        dragDisabled ? '' : 'cursor-grab active:cursor-grabbing'
+      } ${item.checked ? 'bg-gray-50' : 'bg-white'} ${isDragging ? 'opacity-50 z-50 shadow-lg scale-105' : ''}`}
       {...attributes}
       {...listeners}
     >
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-3 flex-1">
-          <div className="flex-1">
-            <h3 className="font-medium text-gray-900">{item.name}</h3>
-            {item.quantity && (
-              <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
+          <Checkbox
+            checked={!!item.checked}
+            onCheckedChange={() => onToggleChecked(item)}
+            onPointerDown={(e) => e.stopPropagation()} // Prevent starting a drag from the checkbox
+            className="h-5 w-5 rounded-full border-green-600 data-[state=checked]:bg-green-600"
+            aria-label={item.checked ? `Uncheck ${item.name}` : `Check off ${item.name}`}
+          />
+          {/* Tapping the text checks the item off too; drags need 8px of movement so they don't count as taps */}
+          <div className="flex-1 cursor-pointer" onClick={() => onToggleChecked(item)}>
+            <h3 className={`font-medium flex items-center gap-1.5 ${
+              item.checked ? 'text-gray-400 line-through' : 'text-gray-900'
+            }`}>
+              {item.name}
+              {isPending && (
+                <CloudUpload className="h-3.5 w-3.5 text-amber-500" aria-label="Not synced yet" />
+              )}
+            </h3>
+            {(item.quantity || item.price !== undefined) && (
+              <p className="text-sm text-gray-500">
+                {item.quantity && `Qty: ${normalizeQuantityText(item.quantity)}`}
+                {item.quantity && item.price !== undefined && ' · '}
+                {item.price !== undefined && `@ ${formatPrice(item.price)}`}
+              </p>
             )}
             {item.category && (
               <span className="inline-block mt-1 px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
@@ -57,6 +83,18 @@ export const SortableItem: React.FC<SortableItemProps> = ({ item, onDelete, isDe
             )}
           </div>
         </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation(); // Prevent triggering drag when clicking edit
+            onEdit(item);
+          }}
+          className="text-gray-500 hover:text-gray-700 hover:bg-gray-100 p-2 cursor-pointer"
+          title="Edit item"
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
         <Button
           variant="ghost"
           size="sm"
@@ -64,15 +102,10 @@ export const SortableItem: React.FC<SortableItemProps> = ({ item, onDelete, isDe
             e.stopPropagation(); // Prevent triggering drag when clicking delete
             onDelete(item);
           }}
-          disabled={isDeleting}
           className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2 cursor-pointer"
           title="Delete item"
         >
-          {isDeleting ? (
-            <RefreshCw className="h-4 w-4 animate-spin" />
-          ) : (
-            <Trash2 className="h-4 w-4" />
-          )}
+          <Trash2 className="h-4 w-4" />
         </Button>
       </div>
     </Card>
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatPrice, parsePrice } from '@/lib/prices';
+
+export interface TripCheckout {
+  // Sum of the cleared items' prices, 0 when none had one
+  estimate: number;
+  itemCount: number;
+  storeName: string;
+}
+
+interface TripTotalDialogProps {
+  checkout: TripCheckout | null;
+  onSave: (total: number) => void;
+  onClose: () => void;
+}
+
+export const TripTotalDialog: React.FC<TripTotalDialogProps> = ({ checkout, onSave, onClose }) => {
+  const [total, setTotal] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (checkout) {
+      setTotal(checkout.estimate > 0 ? checkout.estimate.toFixed(2) : '');
+      setError('');
+    }
+  }, [checkout]);
+
+  const handleSave = () => {
+    const amount = parsePrice(total);
+    if (amount === null || amount <= 0) {
+      setError('Enter the amount you paid, e.g. 54.20');
+      return;
+    }
+    onSave(amount);
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSave();
+    }
+  };
+
+  return (
+    <Dialog open={!!checkout} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Record this trip?</DialogTitle>
+          <DialogDescription>
+            {checkout && (
+              <>
+                {checkout.itemCount} {checkout.itemCount === 1 ? 'item' : 'items'} bought
+                {checkout.storeName ? ` at ${checkout.storeName}` : ''}. Trips count towards your monthly budget.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="tripTotal" className="text-sm font-medium">
+            Total Paid
+          </Label>
+          <Input
+            id="tripTotal"
+            value={total}
+            onChange={(e) => setTotal(e.target.value)}
+            onKeyPress={handleKeyPress}
+            inputMode="decimal"
+            placeholder="e.g. 54.20"
+            className="mt-1"
+            autoFocus
+          />
+          {error ? (
+            <p className="text-xs text-red-600 mt-1">{error}</p>
+          ) : (
+            checkout && checkout.estimate > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Filled in from item prices ({formatPrice(checkout.estimate)}). Change it to what the receipt says.
+              </p>
+            )
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Skip
+          </Button>
+          <Button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white">
+            Save Trip
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
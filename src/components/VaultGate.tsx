@@ -0,0 +1,208 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Lock, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  getVaultStatus,
+  hasPlaintextSecrets,
+  lockVault,
+  MIN_PASSPHRASE_LENGTH,
+  resetVault,
+  setUpVault,
+  subscribeToVault,
+  unlockVault,
+} from '@/services/credentialVault';
+
+// Lock again after this long without any interaction
+const AUTO_LOCK_AFTER = 10 * 60 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'visibilitychange'];
+
+const useAutoLock = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let timer = window.setTimeout(lockVault, AUTO_LOCK_AFTER);
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lockVault, AUTO_LOCK_AFTER);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [enabled]);
+};
+
+interface PassphraseScreenProps {
+  mode: 'unlock' | 'setup';
+}
+
+const PassphraseScreen: React.FC<PassphraseScreenProps> = ({ mode }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleSubmit = async () => {
+    if (mode === 'setup') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match');
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    setError('');
+    try {
+      if (mode === 'setup') {
+        await setUpVault(passphrase);
+      } else if (!(await unlockVault(passphrase))) {
+        setError('Wrong passphrase, please try again');
+        setPassphrase('');
+      }
+    } catch (error) {
+      console.error('Error unlocking credentials:', error);
+      setError(error.message || 'Something went wrong, please try again');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100 flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm p-6 bg-white shadow-sm">
+        <div className="flex flex-col items-center text-center mb-6">
+          {mode === 'setup' ? (
+            <ShieldCheck className="h-10 w-10 text-green-600 mb-3" />
+          ) : (
+            <Lock className="h-10 w-10 text-green-600 mb-3" />
+          )}
+          <h1 className="text-xl font-semibold text-gray-900">
+            {mode === 'setup' ? 'Protect your credentials' : 'Unlock My Grocery List'}
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {mode === 'setup'
+              ? 'Choose a passphrase or PIN. Your saved credentials will be encrypted with it on this device.'
+              : 'Enter your passphrase or PIN to use your saved credentials.'}
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="passphrase" className="text-sm font-medium">
+              Passphrase or PIN
+            </Label>
+            <Input
+              id="passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyPress={handleKeyPress}
+              className="mt-1"
+              autoFocus
+            />
+          </div>
+
+          {mode === 'setup' && (
+            <div>
+              <Label htmlFor="passphraseConfirmation" className="text-sm font-medium">
+                Confirm
+              </Label>
+              <Input
+                id="passphraseConfirmation"
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                onKeyPress={handleKeyPress}
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <Button
+            onClick={handleSubmit}
+            disabled={isWorking || !passphrase}
+            className="w-full bg-green-600 hover:bg-green-700 text-white"
+          >
+            {isWorking ? 'Please wait...' : mode === 'setup' ? 'Encrypt & Continue' : 'Unlock'}
+          </Button>
+
+          {mode === 'unlock' && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="w-full text-gray-500">
+                  Forgot passphrase?
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Remove saved credentials?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Encrypted credentials cannot be recovered without the passphrase. They will be removed from this
+                    device and you will need to add them or sign in again in settings. Your lists are not affected.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={resetVault} className="bg-red-600 hover:bg-red-700">
+                    Remove
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+const getGateState = () => {
+  const status = getVaultStatus();
+  return status === 'disabled' && hasPlaintextSecrets() ? 'setup' : status;
+};
+
+// Keeps the app behind an unlock screen while encrypted credentials are
+// locked, and asks for a passphrase first if plaintext credentials (from an
+// older version, or a fresh Google sign-in) are stored.
+export const VaultGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const state = useSyncExternalStore(subscribeToVault, getGateState);
+  useAutoLock(state === 'unlocked');
+
+  if (state === 'locked') {
+    return <PassphraseScreen mode="unlock" />;
+  }
+  if (state === 'setup') {
+    return <PassphraseScreen mode="setup" />;
+  }
+  return <>{children}</>;
+};
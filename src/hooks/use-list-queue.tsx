@@ -0,0 +1,91 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useMutationQueue } from '@/hooks/use-mutation-queue';
+import { EditConflictDialog, type EditConflict } from '@/components/EditConflictDialog';
+import type { GroceryItem, GroceryListBackend } from '@/services/groceryListBackend';
+
+interface UseListQueueOptions {
+  // Called once a flush has changed the list or been turned away, to pick up
+  // the stored version. Refetches the items when not given.
+  onChanged?: () => void;
+}
+
+// The change queue for a list as every screen that edits it uses it: the
+// cached items follow each change the server accepts, changes it turns away
+// are reported, and edits that clashed with one made elsewhere are asked
+// about in the returned dialog, which the screen renders.
+export function useListQueue(scope: string, backend: GroceryListBackend, options: UseListQueueOptions = {}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Asked about one at a time
+  const [editConflicts, setEditConflicts] = useState<EditConflict[]>([]);
+
+  const queue = useMutationQueue(scope, backend, {
+    onSnapshot: (items) => queryClient.setQueryData<GroceryItem[]>(['groceryItems', scope], items),
+    onFlushed: ({ applied, conflicts, failed }) => {
+      const unresolved: EditConflict[] = [];
+      conflicts.forEach(({ entry, reason, current }) => {
+        if (entry.mutation.type === 'update' && current !== undefined) {
+          unresolved.push({ mine: entry.mutation.item, theirs: current });
+          return;
+        }
+        toast({
+          title: "Change not applied",
+          description: `${reason}, so your change was discarded.`,
+          variant: "destructive",
+        });
+      });
+      failed.forEach((entry) => {
+        toast({
+          title: "Error",
+          description: entry.lastError || "A change could not be saved.",
+          variant: "destructive",
+        });
+      });
+      if (unresolved.length > 0) {
+        setEditConflicts((pending) => [...pending, ...unresolved]);
+      }
+      if (applied > 0 || conflicts.length > 0 || failed.length > 0) {
+        if (optionsRef.current.onChanged) {
+          optionsRef.current.onChanged();
+        } else {
+          queryClient.invalidateQueries({ queryKey: ['groceryItems', scope] });
+        }
+      }
+    },
+  });
+  const { enqueue } = queue;
+
+  // Conflicts belong to the list they came from
+  useEffect(() => {
+    setEditConflicts([]);
+  }, [scope]);
+
+  const resolveEditConflict = useCallback((conflict: EditConflict) => {
+    setEditConflicts((pending) => pending.filter((existing) => existing !== conflict));
+  }, []);
+
+  // Re-applies this device's version over the stored one, or re-adds it if
+  // it was removed
+  const handleKeepMine = useCallback((conflict: EditConflict) => {
+    resolveEditConflict(conflict);
+    if (conflict.theirs) {
+      enqueue({ type: 'update', item: conflict.mine, previous: conflict.theirs });
+    } else {
+      enqueue({ type: 'add', item: conflict.mine });
+    }
+  }, [enqueue, resolveEditConflict]);
+
+  const conflictDialog = (
+    <EditConflictDialog
+      conflict={editConflicts[0] ?? null}
+      onKeepMine={handleKeepMine}
+      onKeepTheirs={resolveEditConflict}
+    />
+  );
+
+  return { ...queue, conflictDialog };
+}
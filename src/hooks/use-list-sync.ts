@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { GroceryItem, GroceryListBackend } from '@/services/groceryListBackend';
+import {
+  diffItems,
+  isEmptyDiff,
+  isFetchStale,
+  mergeRemoteItems,
+  nextPollDelay,
+  type SyncHold,
+} from '@/services/syncEngine';
+
+interface UseListSyncOptions {
+  // Poll for changes made elsewhere; syncNow works either way
+  enabled: boolean;
+  hold: SyncHold;
+}
+
+interface SyncState {
+  scope: string;
+  revision: string | null;
+  hasRevision: boolean;
+  // Items as of the last fetch, to diff the next one against
+  remote: GroceryItem[] | null;
+  fetchedAt: number;
+  // A change arrived while items were held and still needs applying in full
+  deferred: boolean;
+}
+
+const isHolding = (hold: SyncHold): boolean => hold.order || hold.itemIds.size > 0;
+
+export function useListSync(scope: string, backend: GroceryListBackend, { enabled, hold }: UseListSyncOptions) {
+  const queryClient = useQueryClient();
+  const holdRef = useRef(hold);
+  holdRef.current = hold;
+  const state = useRef<SyncState | null>(null);
+  const running = useRef<Promise<boolean> | null>(null);
+
+  // Fetches the list if its revision has moved (or always, when forced) and
+  // merges the changes into the cached items. Resolves to whether anything
+  // had changed.
+  const runSync = useCallback(async (force: boolean): Promise<boolean> => {
+    const queryKey = ['groceryItems', scope];
+    const previous: SyncState = state.current?.scope === scope
+      ? state.current
+      : { scope, revision: null, hasRevision: !!backend.getRevision, remote: null, fetchedAt: 0, deferred: false };
+
+    const revision = backend.getRevision ? await backend.getRevision() : null;
+    const hasRevision = revision !== null;
+    const unchanged = hasRevision && revision === previous.revision && !isFetchStale(previous.fetchedAt);
+    if (!force && !previous.deferred && unchanged) {
+      state.current = { ...previous, hasRevision };
+      return false;
+    }
+
+    const remote = await backend.getGroceryItems();
+    const baseline = previous.remote ?? queryClient.getQueryData<GroceryItem[]>(queryKey) ?? [];
+    const diff = diffItems(baseline, remote);
+    const hold = holdRef.current;
+    const changed = !isEmptyDiff(diff);
+
+    if (changed || previous.deferred || force) {
+      console.log('Merging remote changes:', diff);
+      queryClient.setQueryData<GroceryItem[]>(queryKey, (items) => mergeRemoteItems(items ?? [], remote, hold));
+    }
+    state.current = {
+      scope,
+      revision,
+      hasRevision,
+      remote,
+      fetchedAt: Date.now(),
+      deferred: isHolding(hold) && (changed || previous.deferred),
+    };
+    return changed;
+  }, [scope, backend, queryClient]);
+
+  // One sync at a time; callers that arrive mid-sync share its result
+  const sync = useCallback((force: boolean = false): Promise<boolean> => {
+    if (!running.current) {
+      running.current = runSync(force).finally(() => {
+        running.current = null;
+      });
+    }
+    return running.current;
+  }, [runSync]);
+
+  const syncNow = useCallback(() => {
+    sync().catch(error => console.error('Error syncing list:', error));
+  }, [sync]);
+
+  // Poll with backoff: quickly while changes keep arriving, slower while the
+  // list is quiet and much slower in the background. Coming back to the app
+  // or back online polls straight away.
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let cancelled = false;
+    let timer: number | undefined;
+    let quietPolls = 0;
+
+    const schedule = () => {
+      window.clearTimeout(timer);
+      const visible = document.visibilityState === 'visible';
+      timer = window.setTimeout(poll, nextPollDelay(quietPolls, visible, state.current?.hasRevision ?? true));
+    };
+
+    const poll = async () => {
+      if (navigator.onLine) {
+        try {
+          quietPolls = (await sync()) ? 0 : quietPolls + 1;
+        } catch (error) {
+          console.error('Error syncing list:', error);
+          quietPolls++;
+        }
+      }
+      if (!cancelled) {
+        schedule();
+      }
+    };
+
+    const wake = () => {
+      if (document.visibilityState === 'visible') {
+        quietPolls = 0;
+        window.clearTimeout(timer);
+        poll();
+      } else {
+        schedule();
+      }
+    };
+
+    document.addEventListener('visibilitychange', wake);
+    window.addEventListener('online', wake);
+    schedule();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', wake);
+      window.removeEventListener('online', wake);
+    };
+  }, [enabled, sync]);
+
+  // Apply whatever was held back as soon as the user lets go
+  const holding = isHolding(hold);
+  useEffect(() => {
+    if (!holding && state.current?.scope === scope && state.current.deferred) {
+      sync(true).catch(error => console.error('Error syncing list:', error));
+    }
+  }, [holding, scope, sync]);
+
+  return { syncNow };
+}
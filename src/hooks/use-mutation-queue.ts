@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { GroceryItem, GroceryListBackend } from '@/services/groceryListBackend';
+import {
+  mutationQueue,
+  type FlushResult,
+  type PendingMutation,
+} from '@/services/mutationQueue';
+
+interface UseMutationQueueOptions {
+  onSnapshot?: (items: GroceryItem[]) => void;
+  onFlushed?: (result: FlushResult) => void;
+}
+
+const useOnlineStatus = (): boolean => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+export function useMutationQueue(scope: string, backend: GroceryListBackend, options: UseMutationQueueOptions = {}) {
+  const isOnline = useOnlineStatus();
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const pendingEntries = useSyncExternalStore(
+    mutationQueue.subscribe,
+    () => mutationQueue.getEntries(scope)
+  );
+
+  const flush = useCallback(async () => {
+    const result = await mutationQueue.flush(scope, backend, items => optionsRef.current.onSnapshot?.(items));
+    optionsRef.current.onFlushed?.(result);
+    return result;
+  }, [scope, backend]);
+
+  const enqueue = useCallback((mutation: PendingMutation) => {
+    mutationQueue.enqueue(scope, mutation);
+    if (navigator.onLine) {
+      flush();
+    }
+  }, [scope, flush]);
+
+  // Replay as soon as the connection returns, and on start-up for anything
+  // left over from a previous session.
+  useEffect(() => {
+    if (isOnline) {
+      mutationQueue.resetNetworkBackoff(scope);
+      flush();
+    }
+  }, [isOnline, scope, flush]);
+
+  // Wake up again when the earliest backed-off entry is due for a retry
+  const nextAttemptAt = pendingEntries[0]?.nextAttemptAt ?? 0;
+  useEffect(() => {
+    if (!isOnline || nextAttemptAt === 0) {
+      return;
+    }
+    const timer = window.setTimeout(flush, Math.max(nextAttemptAt - Date.now(), 0));
+    return () => window.clearTimeout(timer);
+  }, [isOnline, nextAttemptAt, flush]);
+
+  return { pendingEntries, isOnline, enqueue, flush };
+}
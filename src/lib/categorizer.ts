@@ -0,0 +1,167 @@
+import { normalizeItemName } from './itemNames';
+
+// Suggests a category for an item from its name using a built-in dictionary,
+// entirely on the device. Categories the user picks by hand are remembered
+// and take priority the next time the same item is added.
+
+export const CATEGORIES = [
+  'Produce',
+  'Dairy & Eggs',
+  'Bakery',
+  'Meat & Seafood',
+  'Frozen',
+  'Pantry',
+  'Beverages',
+  'Snacks',
+  'Household',
+  'Personal Care',
+  'Baby',
+  'Pet',
+] as const;
+
+const DICTIONARY: Record<(typeof CATEGORIES)[number], string[]> = {
+  'Produce': [
+    'apple', 'banana', 'orange', 'lemon', 'lime', 'grape', 'strawberry', 'blueberry', 'raspberry',
+    'berry', 'pear', 'peach', 'plum', 'mango', 'pineapple', 'melon', 'watermelon', 'kiwi', 'avocado',
+    'tomato', 'potato', 'sweet potato', 'onion', 'red onion', 'spring onion', 'garlic', 'ginger',
+    'carrot', 'celery', 'cucumber', 'lettuce', 'spinach', 'kale', 'cabbage', 'broccoli', 'cauliflower',
+    'pepper', 'bell pepper', 'chilli', 'chili', 'zucchini', 'courgette', 'aubergine', 'eggplant',
+    'mushroom', 'pea', 'green bean', 'corn', 'sweetcorn', 'leek', 'asparagus', 'beetroot', 'radish',
+    'herb', 'parsley', 'coriander', 'cilantro', 'basil', 'mint', 'rocket', 'arugula', 'salad', 'fruit',
+    'vegetable', 'veg',
+  ],
+  'Dairy & Eggs': [
+    'milk', 'egg', 'butter', 'cheese', 'cheddar', 'mozzarella', 'parmesan', 'feta', 'yogurt', 'yoghurt',
+    'cream', 'sour cream', 'cream cheese', 'creme fraiche', 'cottage cheese', 'margarine', 'custard',
+  ],
+  'Bakery': [
+    'bread', 'loaf', 'bagel', 'baguette', 'croissant', 'muffin', 'roll', 'bun', 'pita', 'wrap',
+    'tortilla', 'crumpet', 'brioche', 'sourdough', 'cake', 'doughnut', 'donut', 'pastry',
+  ],
+  'Meat & Seafood': [
+    'chicken', 'chicken breast', 'chicken thigh', 'beef', 'mince', 'ground beef', 'steak', 'pork',
+    'bacon', 'ham', 'sausage', 'lamb', 'turkey', 'salami', 'chorizo', 'fish', 'salmon', 'tuna steak',
+    'cod', 'haddock', 'prawn', 'shrimp', 'crab', 'mussel', 'meat',
+  ],
+  'Frozen': [
+    'frozen', 'ice cream', 'ice', 'ice lolly', 'popsicle', 'frozen pea', 'fish finger', 'frozen pizza',
+    'fries', 'sorbet',
+  ],
+  'Pantry': [
+    'rice', 'pasta', 'spaghetti', 'noodle', 'flour', 'sugar', 'salt', 'black pepper', 'oil', 'olive oil',
+    'vinegar', 'cereal', 'oat', 'porridge', 'granola', 'bean', 'baked bean', 'lentil', 'chickpea',
+    'tinned tomato', 'canned tomato', 'chopped tomato', 'tomato paste', 'passata', 'stock', 'soup',
+    'sauce', 'ketchup', 'mayonnaise', 'mayo', 'mustard', 'honey', 'jam', 'peanut butter', 'nutella',
+    'spice', 'cumin', 'paprika', 'cinnamon', 'yeast', 'baking powder', 'tuna', 'coconut milk',
+    'couscous', 'quinoa', 'syrup', 'soy sauce', 'curry paste',
+  ],
+  'Beverages': [
+    'water', 'sparkling water', 'juice', 'orange juice', 'coffee', 'tea', 'soda', 'cola', 'coke',
+    'lemonade', 'beer', 'wine', 'cider', 'energy drink', 'kombucha', 'almond milk', 'oat milk',
+  ],
+  'Snacks': [
+    'crisp', 'chip', 'cracker', 'biscuit', 'cookie', 'chocolate', 'sweet', 'candy', 'popcorn', 'pretzel',
+    'nut', 'peanut', 'almond', 'cashew', 'snack', 'cereal bar', 'granola bar',
+  ],
+  'Household': [
+    'toilet paper', 'toilet roll', 'loo roll', 'kitchen roll', 'paper towel', 'tissue', 'bin bag',
+    'trash bag', 'washing up liquid', 'dish soap', 'dishwasher tablet', 'detergent', 'laundry',
+    'fabric softener', 'bleach', 'cleaner', 'sponge', 'foil', 'cling film', 'plastic wrap', 'battery',
+    'light bulb', 'candle', 'napkin',
+  ],
+  'Personal Care': [
+    'shampoo', 'conditioner', 'soap', 'body wash', 'shower gel', 'toothpaste', 'toothbrush', 'floss',
+    'deodorant', 'razor', 'shaving', 'sunscreen', 'lotion', 'moisturiser', 'moisturizer', 'tampon',
+    'sanitary', 'cotton', 'plaster', 'paracetamol', 'ibuprofen', 'vitamin',
+  ],
+  'Baby': ['nappy', 'diaper', 'baby wipe', 'wipe', 'formula', 'baby food'],
+  'Pet': ['dog food', 'cat food', 'cat litter', 'pet food', 'dog treat', 'cat treat', 'kibble'],
+};
+
+const CORRECTIONS_KEY = 'categoryCorrections';
+
+// Phrase -> category, with multi-word phrases checked before single words so
+// "peanut butter" lands in Pantry rather than Dairy
+const PHRASES: [string, string][] = Object.entries(DICTIONARY)
+  .flatMap(([category, phrases]) => phrases.map(phrase => [normalizeItemName(phrase), category] as [string, string]))
+  .sort((a, b) => b[0].split(' ').length - a[0].split(' ').length || b[0].length - a[0].length);
+
+const loadCorrections = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(CORRECTIONS_KEY) || '{}');
+  } catch (error) {
+    console.error('Error parsing category corrections:', error);
+    return {};
+  }
+};
+
+// Remembers a category the user chose so future adds of the same item use it
+export const rememberCategory = (name: string, category: string): void => {
+  const key = normalizeItemName(name);
+  if (!key) {
+    return;
+  }
+
+  const corrections = loadCorrections();
+  if (category.trim()) {
+    corrections[key] = category.trim();
+  } else {
+    delete corrections[key];
+  }
+  localStorage.setItem(CORRECTIONS_KEY, JSON.stringify(corrections));
+};
+
+// Returns the best category for an item name, or null if nothing matches
+export const classifyItem = (name: string): string | null => {
+  const normalized = normalizeItemName(name);
+  if (!normalized) {
+    return null;
+  }
+
+  const correction = loadCorrections()[normalized];
+  if (correction) {
+    return correction;
+  }
+
+  // Anything explicitly frozen belongs in the freezer aisle
+  if (normalized.startsWith('frozen ')) {
+    return 'Frozen';
+  }
+
+  const padded = ` ${normalized} `;
+  const match = PHRASES.find(([phrase]) => padded.includes(` ${phrase} `));
+  return match ? match[1] : null;
+};
+
+export interface CategoryGroup<T> {
+  // '' for items without a category
+  category: string;
+  label: string;
+  items: T[];
+}
+
+const categoryRank = (category: string): number => {
+  if (!category) {
+    return CATEGORIES.length + 1; // Uncategorized last
+  }
+  const index = CATEGORIES.findIndex(known => known.toLowerCase() === category.toLowerCase());
+  return index === -1 ? CATEGORIES.length : index;
+};
+
+// Buckets items under their category, keeping each item's relative order.
+// Known categories follow the order of CATEGORIES, custom ones come after in
+// alphabetical order, and uncategorized items are grouped at the end.
+export const groupByCategory = <T extends { category?: string }>(items: T[]): CategoryGroup<T>[] => {
+  const groups = new Map<string, CategoryGroup<T>>();
+  items.forEach(item => {
+    const category = item.category?.trim() || '';
+    if (!groups.has(category)) {
+      groups.set(category, { category, label: category || 'Uncategorized', items: [] });
+    }
+    groups.get(category).items.push(item);
+  });
+
+  return [...groups.values()].sort(
+    (a, b) => categoryRank(a.category) - categoryRank(b.category) || a.category.localeCompare(b.category)
+  );
+};
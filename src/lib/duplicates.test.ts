@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { GroceryItem } from '@/services/groceryListBackend';
+import { mergeAdditions } from './duplicates';
+
+const item = (id: string, name: string, quantity = '', checked = false): GroceryItem => ({
+  id,
+  name,
+  quantity,
+  category: '',
+  checked,
+});
+
+describe('mergeAdditions', () => {
+  it('tops up unchecked rows already on the list', () => {
+    const eggs = item('1', 'Eggs', '6');
+    const result = mergeAdditions([eggs], [item('new', 'eggs', '6'), item('new2', 'flour', '500 g')]);
+
+    expect(result.added.map((added) => added.name)).toEqual(['flour']);
+    expect(result.updated).toEqual([{ item: { ...eggs, quantity: '12' }, previous: eggs }]);
+  });
+
+  it('adds a new row when the match is already checked off', () => {
+    const result = mergeAdditions([item('1', 'milk', '1', true)], [item('new', 'milk', '1')]);
+
+    expect(result.added).toHaveLength(1);
+    expect(result.updated).toEqual([]);
+  });
+
+  it('folds duplicates within the batch together', () => {
+    const result = mergeAdditions([], [item('a', 'onion', '1'), item('b', 'onions', '2')]);
+
+    expect(result.added).toEqual([item('a', 'onion', '3')]);
+  });
+
+  it('leaves a row alone when the addition has nothing to add', () => {
+    const result = mergeAdditions([item('1', 'rice', '1 bag')], [item('new', 'rice')]);
+
+    expect(result).toEqual({ added: [], updated: [] });
+  });
+});
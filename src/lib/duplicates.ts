@@ -0,0 +1,94 @@
+import { sameItemContents, type GroceryItem } from '@/services/groceryListBackend';
+import { itemMatchKey } from './itemNames';
+import { formatQuantity, parseQuantity, sumQuantities } from './quantity';
+
+// Finding and merging rows that are the same item added twice, e.g. "eggs"
+// from Alexa and "Eggs" typed on a phone. Checked-off items are left alone;
+// they are already in the trolley.
+
+export interface DuplicateGroup {
+  // The row that is kept, first in list order
+  keep: GroceryItem;
+  duplicates: GroceryItem[];
+}
+
+// The unchecked item on the list that `name` duplicates, if any
+export const findDuplicate = (
+  items: GroceryItem[],
+  name: string,
+  ignoreId?: string
+): GroceryItem | undefined => {
+  const key = itemMatchKey(name);
+  return items.find(item => !item.checked && item.id !== ignoreId && itemMatchKey(item.name) === key);
+};
+
+export const findDuplicateGroups = (items: GroceryItem[]): DuplicateGroup[] => {
+  const groups = new Map<string, DuplicateGroup>();
+  items
+    .filter(item => !item.checked)
+    .forEach(item => {
+      const key = itemMatchKey(item.name);
+      const group = groups.get(key);
+      if (group) {
+        group.duplicates.push(item);
+      } else if (key) {
+        groups.set(key, { keep: item, duplicates: [] });
+      }
+    });
+  return [...groups.values()].filter(group => group.duplicates.length > 0);
+};
+
+// Adds quantities up where they convert ("500 g" and "1 kg" -> "1.5 kg").
+// A missing quantity adds nothing, and anything that cannot be read or
+// combined is kept alongside the total, e.g. "2 + 1 bag".
+export const mergeQuantityText = (quantities: (string | undefined)[]): string => {
+  const texts = quantities.map(text => (text || '').trim()).filter(Boolean);
+  const parsed = texts.map(text => parseQuantity(text));
+  const totals = sumQuantities(parsed.filter(quantity => quantity !== null)).map(formatQuantity);
+  const unreadable = texts.filter((_, index) => parsed[index] === null);
+  return [...totals, ...new Set(unreadable)].join(' + ');
+};
+
+// The kept row with everyone's quantities added up and a category filled in
+// from a duplicate if it had none
+export const mergeGroup = (group: DuplicateGroup): GroceryItem => ({
+  ...group.keep,
+  quantity: mergeQuantityText([group.keep.quantity, ...group.duplicates.map(item => item.quantity)]),
+  category: group.keep.category || group.duplicates.find(item => item.category)?.category || '',
+});
+
+export interface MergedAdditions {
+  // Items that are new to the list
+  added: GroceryItem[];
+  // Rows already on the list, with the new quantities added up
+  updated: { item: GroceryItem; previous: GroceryItem }[];
+}
+
+// Sorts items about to be added, e.g. a recipe's ingredients, into new rows
+// and rows already on the list that they duplicate, so adding the same
+// thing twice tops up the row rather than listing it again. Duplicates
+// within the batch are folded together too.
+export const mergeAdditions = (items: GroceryItem[], additions: GroceryItem[]): MergedAdditions => {
+  const added: GroceryItem[] = [];
+  const updates = new Map<string, { item: GroceryItem; previous: GroceryItem }>();
+
+  additions.forEach(addition => {
+    const inBatch = findDuplicate(added, addition.name);
+    if (inBatch) {
+      added[added.indexOf(inBatch)] = mergeGroup({ keep: inBatch, duplicates: [addition] });
+      return;
+    }
+    const existing = findDuplicate(items, addition.name);
+    if (existing) {
+      const keep = updates.get(existing.id)?.item ?? existing;
+      updates.set(existing.id, { item: mergeGroup({ keep, duplicates: [addition] }), previous: existing });
+      return;
+    }
+    added.push(addition);
+  });
+
+  return {
+    added,
+    updated: [...updates.values()].filter(({ item, previous }) => !sameItemContents(item, previous)),
+  };
+};
@@ -0,0 +1,75 @@
+// Minimal promise wrapper around IndexedDB for the few stores the app keeps
+// on the device. Add new stores to STORES and bump DB_VERSION.
+const DB_NAME = 'my-grocery-list';
+const DB_VERSION = 2;
+const STORES: Record<string, string> = {
+  outbox: 'id',
+  purchaseHistory: 'id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, keyPath]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const idbGetAll = <T>(storeName: string): Promise<T[]> =>
+  runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const idbPut = async <T>(storeName: string, value: T): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.put(value));
+};
+
+export const idbPutAll = async <T>(storeName: string, values: T[]): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    values.forEach(value => store.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const idbDelete = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(key));
+};
@@ -0,0 +1,90 @@
+// Helpers for comparing item names typed by different people (or Alexa):
+// "Eggs", "egg " and "EGGS" should all be treated as the same thing.
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  loaves: 'loaf',
+  leaves: 'leaf',
+  knives: 'knife',
+  potatoes: 'potato',
+  tomatoes: 'tomato',
+  mangoes: 'mango',
+  berries: 'berry',
+  cherries: 'cherry',
+  anchovies: 'anchovy',
+  cookies: 'cookie',
+  brownies: 'brownie',
+  smoothies: 'smoothie',
+  pies: 'pie',
+  veggies: 'veggie',
+  geese: 'goose',
+  mice: 'mouse',
+};
+
+// Words that look plural but are not
+const SINGULAR_EXCEPTIONS = new Set([
+  'hummus', 'couscous', 'asparagus', 'citrus', 'swiss', 'brussels', 'molasses', 'grits',
+]);
+
+export const singularize = (word: string): string => {
+  if (word.length <= 3 || SINGULAR_EXCEPTIONS.has(word) || word.endsWith('ss')) {
+    return word;
+  }
+  if (IRREGULAR_PLURALS[word]) {
+    return IRREGULAR_PLURALS[word];
+  }
+  if (word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (/(ches|shes|xes|zes|sses)$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.endsWith('s') && !word.endsWith('us')) {
+    return word.slice(0, -1);
+  }
+  return word;
+};
+
+// Lowercases, strips punctuation, collapses whitespace and singularises each word
+export const normalizeItemName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ');
+
+// Different names for the same thing, keyed by normalized name
+const SYNONYMS: Record<string, string> = {
+  'scallion': 'spring onion',
+  'green onion': 'spring onion',
+  'coriander': 'cilantro',
+  'courgette': 'zucchini',
+  'aubergine': 'eggplant',
+  'capsicum': 'bell pepper',
+  'garbanzo': 'chickpea',
+  'garbanzo bean': 'chickpea',
+  'rocket': 'arugula',
+  'beef mince': 'ground beef',
+  'minced beef': 'ground beef',
+  'icing sugar': 'powdered sugar',
+  'confectioner sugar': 'powdered sugar',
+  'caster sugar': 'superfine sugar',
+  'double cream': 'heavy cream',
+  'kitchen roll': 'paper towel',
+  'toilet roll': 'toilet paper',
+  'loo roll': 'toilet paper',
+  'washing up liquid': 'dish soap',
+  'dishwashing liquid': 'dish soap',
+  'soda': 'soft drink',
+  'pop': 'soft drink',
+};
+
+// Key for spotting the same item under a different spelling: "Eggs", "egg "
+// and "EGGS" match, as do "ice cream" / "icecream" and "courgettes" /
+// "zucchini"
+export const itemMatchKey = (name: string): string => {
+  const normalized = normalizeItemName(name);
+  return (SYNONYMS[normalized] ?? normalized).replace(/\s/g, '');
+};
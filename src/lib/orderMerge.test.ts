@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { mergeItemOrder } from './orderMerge';
+
+describe('mergeItemOrder', () => {
+  it('keeps a row added elsewhere when replaying a local move', () => {
+    // c was moved to the top here; x was added on another device
+    expect(mergeItemOrder(['a', 'b', 'c', 'd'], ['c', 'a', 'b', 'd'], ['a', 'b', 'x', 'c', 'd']))
+      .toEqual(['c', 'a', 'b', 'x', 'd']);
+  });
+
+  it('keeps moves made on both sides', () => {
+    // d was moved to the top here; b and c were swapped on another device
+    expect(mergeItemOrder(['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c'], ['a', 'c', 'b', 'd']))
+      .toEqual(['d', 'a', 'c', 'b']);
+  });
+
+  it('leaves out a moved row that was removed elsewhere', () => {
+    expect(mergeItemOrder(['a', 'b', 'c'], ['c', 'a', 'b'], ['a', 'b'])).toEqual(['a', 'b']);
+  });
+
+  it('returns the remote order when nothing was moved', () => {
+    expect(mergeItemOrder(['a', 'b', 'c'], ['a', 'b', 'c'], ['c', 'b', 'a'])).toEqual(['c', 'b', 'a']);
+  });
+});
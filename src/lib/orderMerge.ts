@@ -0,0 +1,63 @@
+// Three-way merge of list orders. A reorder is recorded as the order the
+// user started from (base) and the order they left it in (local); meanwhile
+// the stored list (remote) may have gained rows from Alexa, lost some, or
+// been reordered on another phone. The merge replays only the moves the user
+// made onto the remote order, so everything else stays where it is now.
+
+// The items the user moved: everything outside the longest run that kept
+// its base order, plus anything that was not in the base at all
+const movedIds = (base: string[], local: string[]): Set<string> => {
+  const baseIndex = new Map(base.map((id, index) => [id, index]));
+  const kept = local.filter(id => baseIndex.has(id));
+
+  // Longest increasing subsequence of base positions, with back-links
+  const tails: number[] = [];
+  const previous: number[] = [];
+  kept.forEach((id, index) => {
+    const position = baseIndex.get(id) as number;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if ((baseIndex.get(kept[tails[middle]]) as number) < position) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const unmoved = new Set<string>();
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]) {
+    unmoved.add(kept[index]);
+  }
+  return new Set(local.filter(id => !unmoved.has(id)));
+};
+
+export const mergeItemOrder = (base: string[], local: string[], remote: string[]): string[] => {
+  const moved = movedIds(base, local);
+  const remoteIds = new Set(remote);
+  const result = remote.filter(id => !moved.has(id));
+
+  // Put each moved item back next to its neighbour in the user's order:
+  // after the nearest earlier item already placed, or failing that before
+  // the nearest later one. Items removed elsewhere stay removed.
+  local.forEach((id, index) => {
+    if (!moved.has(id) || !remoteIds.has(id)) {
+      return;
+    }
+    let insertAt = -1;
+    for (let before = index - 1; before >= 0 && insertAt === -1; before--) {
+      const at = result.indexOf(local[before]);
+      insertAt = at === -1 ? -1 : at + 1;
+    }
+    for (let after = index + 1; after < local.length && insertAt === -1; after++) {
+      insertAt = result.indexOf(local[after]);
+    }
+    result.splice(insertAt === -1 ? result.length : insertAt, 0, id);
+  });
+
+  return result;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { parseItemInput } from './parseItemInput';
+
+describe('parseItemInput', () => {
+  it.each([
+    ['2 kg chicken breast', 'chicken breast', '2 kg'],
+    ['500g flour', 'flour', '500 g'],
+    ['3 cans of tomatoes', 'tomatoes', '3 cans'],
+    ['a dozen eggs', 'eggs', '1 dozen'],
+    ['half a kg cheese', 'cheese', '0.5 kg'],
+    ['3 eggs', 'eggs', '3'],
+    ['3x milk', 'milk', '3'],
+    ['2 grapes', 'grapes', '2'],
+  ])('reads a leading quantity from "%s"', (input, name, quantityText) => {
+    expect(parseItemInput(input)).toMatchObject({ name, quantityText });
+  });
+
+  it.each([
+    ['milk x3', 'milk', '3'],
+    ['milk 3x', 'milk', '3'],
+    ['chicken breast 2kg', 'chicken breast', '2 kg'],
+    ['flour - 500 g', 'flour', '500 g'],
+    ['butter (250g)', 'butter', '250 g'],
+  ])('reads a trailing quantity from "%s"', (input, name, quantityText) => {
+    expect(parseItemInput(input)).toMatchObject({ name, quantityText });
+  });
+
+  it.each([
+    '7up',
+    '100% juice',
+    '2-3 cloves garlic',
+    'a bit of cheese',
+    'half and half',
+    '10 g',
+    '3 cans',
+  ])('keeps "%s" as the name', (input) => {
+    expect(parseItemInput(input)).toEqual({ name: input, quantity: null, quantityText: '' });
+  });
+});
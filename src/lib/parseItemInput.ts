@@ -0,0 +1,84 @@
+import {
+  AMOUNT_PATTERN,
+  UNIT_PATTERN,
+  formatQuantity,
+  normalizeUnit,
+  parseAmount,
+  type Quantity,
+} from './quantity';
+
+export interface ParsedItemInput {
+  name: string;
+  quantity: Quantity | null;
+  // The quantity as it should be written to the sheet, or '' when none was given
+  quantityText: string;
+}
+
+// Amount with an optional unit; the unit must end on a word boundary so
+// "2 grapes" is not read as "2 g rapes".
+const MEASURE = `(${AMOUNT_PATTERN})\\s*(?:(${UNIT_PATTERN})\\.?(?![a-z]))?`;
+
+// "2 kg chicken breast", "3 cans of tomatoes", "a dozen eggs", "half a kg
+// cheese", "3x milk". A number with no unit must be followed by a space or
+// "x", so "7up", "100% juice" and "2-3 cloves garlic" are not read as counts.
+const LEADING = new RegExp(
+  `^(${AMOUNT_PATTERN})(?:\\s*(?:an?\\s+)?(${UNIT_PATTERN})\\.?(?![a-z])\\s*(?:x\\s+|×\\s*)?|\\s*(?:x\\s+|×\\s*)|\\s+)(?:of\\s+)?(.+)$`,
+  'i'
+);
+// "milk x3", "milk x 3", "milk 3x", "milk ×3"
+const TRAILING_TIMES = new RegExp(`^(.+?)\\s*(?:[x×]\\s*(${AMOUNT_PATTERN})|\\s(${AMOUNT_PATTERN})\\s*x)$`, 'i');
+// "chicken breast 2kg", "flour - 500 g", "rice, 1 bag", "butter (250g)"
+const TRAILING_MEASURE = new RegExp(`^(.+?)\\s*(?:[-,:]\\s*|\\(\\s*|\\s)${MEASURE}\\s*\\)?$`, 'i');
+
+// Words that only count as a quantity when a unit follows ("a dozen eggs",
+// "half a kg") - otherwise "a bit of cheese" or "half and half" lose a word
+const UNIT_ONLY_AMOUNT = /^(an?|half)$/i;
+
+const toQuantity = (amountText: string, unitText: string | undefined): Quantity | null => {
+  const amount = parseAmount(amountText);
+  const unit = normalizeUnit(unitText || '');
+  return amount === null || unit === null || amount <= 0 ? null : { amount, unit };
+};
+
+const cleanName = (name: string): string =>
+  name.trim().replace(/^of\s+/i, '').replace(/[\s,:-]+$/, '').trim();
+
+const result = (name: string, quantity: Quantity | null): ParsedItemInput => ({
+  name: cleanName(name),
+  quantity,
+  quantityText: quantity ? formatQuantity(quantity) : '',
+});
+
+// Splits what someone typed into the add box into an item name and an
+// optional quantity, e.g. "2 kg chicken breast" or "milk x3". Input with no
+// recognisable quantity comes back unchanged as the name.
+export const parseItemInput = (input: string): ParsedItemInput => {
+  const text = input.trim().replace(/\s+/g, ' ');
+
+  const leading = text.match(LEADING);
+  // "10 g" on its own is a quantity with no name, not 10 of "g"
+  if (leading && cleanName(leading[3]) && (leading[2] || normalizeUnit(cleanName(leading[3])) === null)) {
+    const quantity = toQuantity(leading[1], leading[2]);
+    if (quantity && (leading[2] || !UNIT_ONLY_AMOUNT.test(leading[1]))) {
+      return result(leading[3], quantity);
+    }
+  }
+
+  const times = text.match(TRAILING_TIMES);
+  if (times && cleanName(times[1])) {
+    const quantity = toQuantity(times[2] || times[3], '');
+    if (quantity) {
+      return result(times[1], quantity);
+    }
+  }
+
+  const trailing = text.match(TRAILING_MEASURE);
+  if (trailing && cleanName(trailing[1]) && (trailing[3] || !UNIT_ONLY_AMOUNT.test(trailing[2]))) {
+    const quantity = toQuantity(trailing[2], trailing[3]);
+    if (quantity) {
+      return result(trailing[1], quantity);
+    }
+  }
+
+  return { name: text, quantity: null, quantityText: '' };
+};
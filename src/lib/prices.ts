@@ -0,0 +1,23 @@
+import type { GroceryItem } from '@/services/groceryListBackend';
+import { parseQuantity } from './quantity';
+
+// Prices are plain numbers in whatever currency the household uses; the
+// app never shows a currency symbol.
+
+// Reads "2.49", "2,49", "$2.49" or "£ 2.49". Returns null for anything else.
+export const parsePrice = (text: string | undefined): number | null => {
+  const value = (text || '').trim().replace(/^[^\d.,-]+|[^\d.,]+$/g, '').replace(',', '.');
+  if (!/^\d+(?:\.\d+)?$/.test(value)) {
+    return null;
+  }
+  return Number(value);
+};
+
+export const formatPrice = (amount: number): string =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// How many units of the price an item needs: "2 kg" at a price per kg is 2,
+// "3" is 3. Quantities that cannot be read count once.
+export const priceUnits = (item: GroceryItem): number => parseQuantity(item.quantity)?.amount ?? 1;
+
+export const itemCost = (item: GroceryItem, price: number): number => price * priceUnits(item);
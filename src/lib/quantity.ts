@@ -0,0 +1,245 @@
+// Structured quantities for grocery items. The sheet stores quantities as
+// free text ("2 kg", "x3", "a dozen"); these helpers turn that text into an
+// { amount, unit } pair that can be displayed consistently and added up.
+
+export interface Quantity {
+  amount: number;
+  // Canonical unit key from UNITS, or '' for a plain count
+  unit: string;
+}
+
+type Dimension = 'mass' | 'volume' | 'count';
+
+interface UnitDefinition {
+  dimension: Dimension;
+  // Size of one unit in the dimension's base unit (g, ml or each). Only
+  // defined for units that convert to one another.
+  factor?: number;
+  plural?: string;
+  aliases: string[];
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  mg: { dimension: 'mass', factor: 0.001, aliases: ['milligram', 'milligrams'] },
+  g: { dimension: 'mass', factor: 1, aliases: ['gr', 'gram', 'grams', 'gramme', 'grammes'] },
+  kg: { dimension: 'mass', factor: 1000, aliases: ['kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+  oz: { dimension: 'mass', factor: 28.3495, aliases: ['ounce', 'ounces'] },
+  lb: { dimension: 'mass', factor: 453.592, aliases: ['lbs', 'pound', 'pounds'] },
+  ml: { dimension: 'volume', factor: 1, aliases: ['millilitre', 'millilitres', 'milliliter', 'milliliters'] },
+  cl: { dimension: 'volume', factor: 10, aliases: ['centilitre', 'centilitres', 'centiliter', 'centiliters'] },
+  dl: { dimension: 'volume', factor: 100, aliases: ['decilitre', 'decilitres', 'deciliter', 'deciliters'] },
+  l: { dimension: 'volume', factor: 1000, aliases: ['ltr', 'litre', 'litres', 'liter', 'liters'] },
+  tsp: { dimension: 'volume', factor: 4.92892, aliases: ['teaspoon', 'teaspoons', 'tsps'] },
+  tbsp: { dimension: 'volume', factor: 14.7868, aliases: ['tablespoon', 'tablespoons', 'tbsps', 'tbs'] },
+  'fl oz': { dimension: 'volume', factor: 29.5735, aliases: ['floz', 'fluid ounce', 'fluid ounces'] },
+  cup: { dimension: 'volume', factor: 240, plural: 'cups', aliases: ['cups'] },
+  pint: { dimension: 'volume', factor: 473.176, plural: 'pints', aliases: ['pints', 'pt'] },
+  quart: { dimension: 'volume', factor: 946.353, plural: 'quarts', aliases: ['quarts', 'qt'] },
+  gallon: { dimension: 'volume', factor: 3785.41, plural: 'gallons', aliases: ['gallons', 'gal'] },
+  dozen: { dimension: 'count', factor: 12, plural: 'dozen', aliases: ['doz'] },
+  pair: { dimension: 'count', factor: 2, plural: 'pairs', aliases: ['pairs'] },
+  pack: { dimension: 'count', plural: 'packs', aliases: ['packs', 'packet', 'packets', 'pk'] },
+  bag: { dimension: 'count', plural: 'bags', aliases: ['bags'] },
+  box: { dimension: 'count', plural: 'boxes', aliases: ['boxes'] },
+  can: { dimension: 'count', plural: 'cans', aliases: ['cans', 'tin', 'tins'] },
+  bottle: { dimension: 'count', plural: 'bottles', aliases: ['bottles'] },
+  jar: { dimension: 'count', plural: 'jars', aliases: ['jars'] },
+  carton: { dimension: 'count', plural: 'cartons', aliases: ['cartons'] },
+  bunch: { dimension: 'count', plural: 'bunches', aliases: ['bunches'] },
+  loaf: { dimension: 'count', plural: 'loaves', aliases: ['loaves'] },
+  head: { dimension: 'count', plural: 'heads', aliases: ['heads'] },
+  clove: { dimension: 'count', plural: 'cloves', aliases: ['cloves'] },
+  slice: { dimension: 'count', plural: 'slices', aliases: ['slices'] },
+  piece: { dimension: 'count', plural: 'pieces', aliases: ['pieces', 'pc', 'pcs'] },
+};
+
+const UNIT_LOOKUP = new Map<string, string>(
+  Object.entries(UNITS).flatMap(([key, unit]) => [key, ...unit.aliases].map(alias => [alias, key] as [string, string]))
+);
+
+// A bare number ("3 eggs") counts single items
+const PLAIN_COUNT: UnitDefinition = { dimension: 'count', factor: 1, aliases: [] };
+
+const definitionOf = (unit: string): UnitDefinition | undefined => (unit ? UNITS[unit] : PLAIN_COUNT);
+
+// Longest first so "fl oz" wins over "oz" and "kgs" over "kg"
+export const UNIT_PATTERN = [...UNIT_LOOKUP.keys()]
+  .sort((a, b) => b.length - a.length)
+  .map(alias => alias.replace(/ /g, '\\s*'))
+  .join('|');
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75, '⅛': 0.125,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, half: 0.5,
+};
+
+// Matches "2", "1.5", "1,5", "1/2", "1 1/2", "1½", "½" or a number word
+export const AMOUNT_PATTERN =
+  `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d*[${Object.keys(UNICODE_FRACTIONS).join('')}]|\\d+(?:[.,]\\d+)?|(?:${Object.keys(NUMBER_WORDS).join('|')})\\b)`;
+
+export const parseAmount = (text: string): number | null => {
+  const value = text.trim().toLowerCase();
+  if (value in NUMBER_WORDS) {
+    return NUMBER_WORDS[value];
+  }
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  }
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+  }
+
+  const unicode = value.match(/^(\d*)(.)$/);
+  if (unicode && unicode[2] in UNICODE_FRACTIONS) {
+    return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+
+  const number = Number(value.replace(',', '.'));
+  return Number.isFinite(number) && value !== '' ? number : null;
+};
+
+export const normalizeUnit = (text: string): string | null => {
+  const value = text.trim().toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ');
+  if (value === '' || value === 'x' || value === 'each' || value === 'ea') {
+    return '';
+  }
+  return UNIT_LOOKUP.get(value) ?? UNIT_LOOKUP.get(value.replace(/\s/g, '')) ?? null;
+};
+
+// Parses a stored quantity such as "2 kg", "500g", "x3", "3x", "1/2 cup" or
+// "a dozen". Returns null for text that is not a recognisable quantity.
+export const parseQuantity = (text: string | undefined): Quantity | null => {
+  const value = (text || '').trim().toLowerCase();
+  if (!value) {
+    return null;
+  }
+
+  const times = value.match(new RegExp(`^(?:x\\s*(${AMOUNT_PATTERN})|(${AMOUNT_PATTERN})\\s*x)$`));
+  if (times) {
+    const amount = parseAmount(times[1] || times[2]);
+    return amount === null ? null : { amount, unit: '' };
+  }
+
+  const match = value.match(new RegExp(`^(${AMOUNT_PATTERN})?\\s*(${UNIT_PATTERN})?\\.?$`));
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  const amount = match[1] ? parseAmount(match[1]) : 1;
+  const unit = normalizeUnit(match[2] || '');
+  if (amount === null || unit === null) {
+    return null;
+  }
+  return { amount, unit };
+};
+
+const formatAmount = (amount: number): string =>
+  Number.isInteger(amount) ? String(amount) : String(Number(amount.toFixed(2)));
+
+export const formatQuantity = (quantity: Quantity): string => {
+  const amount = formatAmount(quantity.amount);
+  if (!quantity.unit) {
+    return amount;
+  }
+
+  const definition = UNITS[quantity.unit];
+  const unit = quantity.amount !== 1 && definition?.plural ? definition.plural : quantity.unit;
+  return `${amount} ${unit}`;
+};
+
+// Tidies free-text quantities ("2KG" -> "2 kg"); unrecognised text is kept as-is
+export const normalizeQuantityText = (text: string | undefined): string => {
+  const quantity = parseQuantity(text);
+  return quantity ? formatQuantity(quantity) : (text || '').trim();
+};
+
+export const convertQuantity = (quantity: Quantity, unit: string): Quantity | null => {
+  if (quantity.unit === unit) {
+    return quantity;
+  }
+
+  const from = definitionOf(quantity.unit);
+  const to = definitionOf(unit);
+  if (!from?.factor || !to?.factor || from.dimension !== to.dimension) {
+    return null;
+  }
+  return { amount: (quantity.amount * from.factor) / to.factor, unit };
+};
+
+// Picks a readable unit for a total in a dimension's base unit
+const bestUnit = (dimension: Dimension, baseAmount: number, preferred: string): string => {
+  if (dimension === 'mass' && ['g', 'kg'].includes(preferred)) {
+    return baseAmount >= 1000 ? 'kg' : 'g';
+  }
+  if (dimension === 'volume' && ['ml', 'l'].includes(preferred)) {
+    return baseAmount >= 1000 ? 'l' : 'ml';
+  }
+  return preferred;
+};
+
+// Adds two quantities, converting units where that makes sense. Returns
+// null when they cannot be combined (e.g. "2 kg" and "1 bag").
+export const addQuantities = (a: Quantity, b: Quantity): Quantity | null => {
+  if (a.unit === b.unit) {
+    return { amount: a.amount + b.amount, unit: a.unit };
+  }
+
+  const base = definitionOf(a.unit);
+  const other = definitionOf(b.unit);
+  if (!base?.factor || !other?.factor || base.dimension !== other.dimension) {
+    return null;
+  }
+
+  const total = a.amount * base.factor + b.amount * other.factor;
+  const unit = bestUnit(base.dimension, total, a.unit);
+  return { amount: total / definitionOf(unit).factor, unit };
+};
+
+// Sums a list of quantities into as few entries as possible; quantities that
+// cannot be converted into each other are kept as separate totals.
+export const sumQuantities = (quantities: Quantity[]): Quantity[] =>
+  quantities.reduce<Quantity[]>((totals, quantity) => {
+    for (let i = 0; i < totals.length; i++) {
+      const combined = addQuantities(totals[i], quantity);
+      if (combined) {
+        return totals.map((total, index) => (index === i ? combined : total));
+      }
+    }
+    return [...totals, quantity];
+  }, []);
+
+// Takes one item off a counted quantity ("3" -> "2", "2 packs" -> "1 pack",
+// "1 dozen" -> "11"). Returns null for weights and volumes, which are not
+// used up one at a time.
+export const decrementQuantity = (quantity: Quantity): Quantity | null => {
+  const definition = definitionOf(quantity.unit);
+  if (definition?.dimension !== 'count') {
+    return null;
+  }
+
+  const counted = definition.factor && quantity.unit ? convertQuantity(quantity, '') : quantity;
+  return { amount: Math.max(counted.amount - 1, 0), unit: counted.unit };
+};
+
+// Multiplies a quantity, e.g. to cook a recipe for more people. Counted
+// items are rounded up to whole ones, since nobody buys 1.5 eggs.
+export const scaleQuantity = (quantity: Quantity, factor: number): Quantity => {
+  const amount = quantity.amount * factor;
+  const rounded = definitionOf(quantity.unit)?.dimension === 'count' ? Math.ceil(amount - 1e-9) : amount;
+  return { amount: rounded, unit: quantity.unit };
+};
+
+// Takes b away from a in a's unit. Returns null when the units do not
+// convert; an amount of zero or less means nothing is left.
+export const subtractQuantities = (a: Quantity, b: Quantity): Quantity | null => {
+  const converted = convertQuantity(b, a.unit);
+  return converted ? { amount: a.amount - converted.amount, unit: a.unit } : null;
+};
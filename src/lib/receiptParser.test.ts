@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseReceipt } from './receiptParser';
+
+const parseLines = (text: string) =>
+  parseReceipt(text).lines.map(({ name, amount, count, unitPrice }) => ({ name, amount, count, unitPrice }));
+
+describe('parseReceipt', () => {
+  it('reads item lines and the total', () => {
+    const receipt = parseReceipt(['MILK 2L 1.45', 'ORG BANANAS 0.95 A', 'SUBTOTAL 2.40', 'TOTAL 2.40', 'CARD 2.40'].join('\n'));
+
+    expect(receipt.lines.map((line) => [line.name, line.amount])).toEqual([
+      ['MILK 2L', 1.45],
+      ['ORG BANANAS', 0.95],
+    ]);
+    expect(receipt.total).toBe(2.4);
+  });
+
+  it('takes the count and unit price from a multibuy line under the item', () => {
+    expect(parseLines('CHKN BRST 5.00\n2 @ 2.50')).toEqual([
+      { name: 'CHKN BRST', amount: 5, count: 2, unitPrice: 2.5 },
+    ]);
+  });
+
+  it('keeps a discount printed after a multibuy line', () => {
+    expect(parseLines('CHKN 5.00\n2 @ 2.50\nPROMO -0.50')).toEqual([
+      { name: 'CHKN', amount: 4.5, count: 2, unitPrice: 2.5 },
+    ]);
+  });
+
+  it('takes the line total from a multibuy line that prints one', () => {
+    expect(parseLines('COKE 0.89\n2 x 0.89 1.78')).toEqual([
+      { name: 'COKE', amount: 1.78, count: 2, unitPrice: 0.89 },
+    ]);
+  });
+
+  it.each([
+    ['APPLES 3 @ 0.50 1.50', 'APPLES'],
+    ['3 @ 0.50 APPLES 1.50', 'APPLES'],
+    ['APPLES 3 x £0.50 1.50', 'APPLES'],
+  ])('reads a multibuy on the item line "%s"', (text, name) => {
+    expect(parseLines(text)).toEqual([{ name, amount: 1.5, count: 3, unitPrice: 0.5 }]);
+  });
+
+  it('drops the weight from weighed items', () => {
+    expect(parseLines('BANANAS 0.512 kg @ 1.20/kg 0.61')).toEqual([
+      { name: 'BANANAS', amount: 0.61, count: null, unitPrice: null },
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+import type { GroceryItem } from '@/services/groceryListBackend';
+import { itemMatchKey, normalizeItemName } from './itemNames';
+import { parsePrice } from './prices';
+
+// Reads pasted receipt text into priced lines and a total, and pairs the
+// lines with items on the list. Till receipts shorten names ("ORG BANANAS",
+// "CHKN BRST FLLT"), so matching is by word and abbreviation rather than by
+// exact name; anything uncertain is left for the user to assign.
+
+export interface ReceiptLine {
+  id: string;
+  // The line as printed, for showing next to the match
+  text: string;
+  name: string;
+  // What the line cost, after any discount printed under it
+  amount: number;
+  // How many were bought when the receipt says, e.g. "2 @ 0.89"
+  count: number | null;
+  // Price of each one when the receipt says
+  unitPrice: number | null;
+}
+
+export interface ParsedReceipt {
+  lines: ReceiptLine[];
+  // The printed total, or null when there was none
+  total: number | null;
+}
+
+export interface ReceiptMatch {
+  lineId: string;
+  itemId: string;
+  score: number;
+}
+
+// A price at the end of a line, with an optional trailing minus for
+// discounts and a tax code such as "A" or "*"
+const PRICE_AT_END = /\s(-?[£$€]?\s?\d+[.,]\d{2})(-?)\s*[A-Z*]{0,2}$/;
+const TOTAL_LINE = /^(?:grand\s+)?total\b|\b(?:balance|amount)\s+due\b|\bto\s+pay\b/i;
+// Lines with a price that are not things bought
+const SUMMARY_LINE = /\b(?:sub\s*-?total|total|balance|tax|vat|change|cash|card|visa|mastercard|amex|debit|credit|tender|payment|paid|due|points|rounding|items?\s+sold)\b/i;
+const DISCOUNT_LINE = /\b(?:discount|saving|savings|promo|offer|coupon|voucher|off|deal)\b/i;
+// "2 @ 0.89" or "2 x £0.89" at the start of a line, which on its own
+// belongs to the item above
+const MULTIBUY = /^(\d+)\s*[x@]\s*[£$€]?(\d+[.,]\d{2})\b/i;
+// The same anywhere in an item's line: "APPLES 3 @ 0.50 1.50"
+const MULTIBUY_IN_LINE = /(?:^|\s)(\d+)\s*[x@]\s*[£$€]?(\d+[.,]\d{2})\b/i;
+// "0.512 kg @ 6.99/kg", dropped from the name; the line amount is what counts
+const WEIGHED = /\d+(?:[.,]\d+)?\s*(?:kg|g|lb|oz)\s*@\s*[£$€]?\d+[.,]\d{2}\s*\/\s*(?:kg|lb)/i;
+// Sizes and pack counts in names: "2L", "500G", "6PK", "x4"
+const SIZE_TOKEN = /^(?:\d+(?:\.\d+)?(?:l|ml|cl|g|kg|lb|oz|pk|pack)?|x\d+)$/;
+
+// The smallest share of a list item's words a line must account for
+const MIN_ITEM_COVERAGE = 0.5;
+const MIN_SCORE = 0.5;
+
+const parseAmount = (text: string): number | null => {
+  const negative = text.trim().startsWith('-');
+  const value = parsePrice(text.replace('-', ''));
+  return value === null ? null : negative ? -value : value;
+};
+
+export const parseReceipt = (text: string): ParsedReceipt => {
+  const lines: ReceiptLine[] = [];
+  let total: number | null = null;
+
+  text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).forEach(raw => {
+    const previous = lines[lines.length - 1];
+    const priceMatch = raw.match(PRICE_AT_END);
+    const multibuy = raw.match(MULTIBUY);
+
+    // A "2 @ 0.89" line under an item says how many were bought
+    // and, when a price follows the unit price, what they came to
+    const afterMultibuy = multibuy ? raw.replace(MULTIBUY, '') : '';
+    if (multibuy && previous && !afterMultibuy.replace(PRICE_AT_END, '').match(/[a-z]/i)) {
+      previous.count = Number(multibuy[1]);
+      previous.unitPrice = parsePrice(multibuy[2]);
+      const lineTotal = afterMultibuy.match(PRICE_AT_END);
+      if (lineTotal) {
+        previous.amount = parsePrice(lineTotal[1]) ?? previous.amount;
+      }
+      return;
+    }
+
+    if (!priceMatch) {
+      return;
+    }
+    const amount = parseAmount(priceMatch[2] ? `-${priceMatch[1]}` : priceMatch[1]);
+    const label = raw.slice(0, priceMatch.index).trim();
+    if (amount === null) {
+      return;
+    }
+
+    if (TOTAL_LINE.test(label) && !/sub\s*-?total/i.test(label)) {
+      total ??= Math.abs(amount);
+      return;
+    }
+    if (SUMMARY_LINE.test(label)) {
+      return;
+    }
+    if (amount < 0 || DISCOUNT_LINE.test(label)) {
+      if (previous) {
+        previous.amount = Math.max(previous.amount - Math.abs(amount), 0);
+      }
+      return;
+    }
+
+    const counted = label.match(MULTIBUY_IN_LINE);
+    const name = label.replace(WEIGHED, '').replace(MULTIBUY_IN_LINE, ' ').replace(/\s+/g, ' ').trim();
+    if (!name) {
+      return;
+    }
+    lines.push({
+      id: crypto.randomUUID(),
+      text: raw,
+      name,
+      amount,
+      count: counted ? Number(counted[1]) : null,
+      unitPrice: counted ? parsePrice(counted[2]) : null,
+    });
+  });
+
+  return { lines, total };
+};
+
+const nameTokens = (name: string): string[] =>
+  normalizeItemName(name).split(' ').filter(token => token && !SIZE_TOKEN.test(token));
+
+// "wht" is short for "white" and "chkn" for "chicken": same first letter,
+// and the letters appear in order
+const isAbbreviation = (short: string, word: string): boolean => {
+  if (short.length < 3 || short[0] !== word[0]) {
+    return false;
+  }
+  let index = 0;
+  for (const letter of word) {
+    if (letter === short[index]) {
+      index++;
+    }
+  }
+  return index === short.length;
+};
+
+const tokensMatch = (receiptToken: string, itemToken: string): boolean =>
+  receiptToken === itemToken ||
+  isAbbreviation(receiptToken, itemToken) ||
+  isAbbreviation(itemToken, receiptToken);
+
+// How well a receipt line describes a list item, from 0 to 1. Mostly how
+// many of the item's words the line has, with a little for how few extra
+// words it has, so "MILK" beats "MILK CHOCOLATE" for "milk".
+export const scoreReceiptMatch = (lineName: string, itemName: string): number => {
+  const lineKey = itemMatchKey(lineName);
+  const itemKey = itemMatchKey(itemName);
+  if (lineKey && lineKey === itemKey) {
+    return 1;
+  }
+
+  const lineTokens = nameTokens(lineName);
+  const itemTokens = nameTokens(itemName);
+  if (lineTokens.length === 0 || itemTokens.length === 0) {
+    return 0;
+  }
+  const itemCovered = itemTokens.filter(token => lineTokens.some(lineToken => tokensMatch(lineToken, token))).length;
+  const lineCovered = lineTokens.filter(token => itemTokens.some(itemToken => tokensMatch(token, itemToken))).length;
+  const itemCoverage = itemCovered / itemTokens.length;
+  if (itemCoverage < MIN_ITEM_COVERAGE) {
+    return 0;
+  }
+  return 0.8 * itemCoverage + 0.2 * (lineCovered / lineTokens.length);
+};
+
+// Pairs each line with at most one item and each item with at most one line,
+// best scores first
+export const matchReceiptLines = (lines: ReceiptLine[], items: GroceryItem[]): ReceiptMatch[] => {
+  const candidates = lines.flatMap(line =>
+    items.map(item => ({ lineId: line.id, itemId: item.id, score: scoreReceiptMatch(line.name, item.name) }))
+  );
+
+  const usedLines = new Set<string>();
+  const usedItems = new Set<string>();
+  return candidates
+    .filter(candidate => candidate.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .filter(candidate => {
+      if (usedLines.has(candidate.lineId) || usedItems.has(candidate.itemId)) {
+        return false;
+      }
+      usedLines.add(candidate.lineId);
+      usedItems.add(candidate.itemId);
+      return true;
+    });
+};
+
+// What the item cost per unit of its quantity, which is how list prices
+// are kept: the receipt's unit price when it printed one, otherwise the
+// line spread over the item's quantity
+export const receiptUnitPrice = (line: ReceiptLine, units: number): number => {
+  if (line.unitPrice !== null) {
+    return line.unitPrice;
+  }
+  const count = line.count ?? units;
+  return Math.round((line.amount / (count > 0 ? count : 1)) * 100) / 100;
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseIngredient } from './recipeParser';
+
+describe('parseIngredient', () => {
+  it.each([
+    ['2 cups flour, sifted', 'flour', '2 cups'],
+    ['1 ½ tsp salt', 'salt', '1.5 tsp'],
+    ['2 large eggs', 'eggs', '2'],
+    ['1 onion (finely chopped)', 'onion', '1'],
+    ['2-3 cloves garlic', 'garlic', '3 cloves'],
+    ['1 to 2 tbsp olive oil', 'olive oil', '2 tbsp'],
+    ['Juice of 1 lemon', 'lemon', '1'],
+    ['Zest and juice of 2 limes', 'limes', '2'],
+    ['1 15-ounce can black beans', 'black beans', '1 can'],
+    ['2 400g tins chopped tomatoes', 'chopped tomatoes', '2 cans'],
+  ])('reads "%s"', (line, name, quantity) => {
+    expect(parseIngredient(line)).toEqual({ name, quantity });
+  });
+
+  it('keeps lines without a quantity as the name', () => {
+    expect(parseIngredient('Salt and pepper to taste')).toEqual({ name: 'Salt and pepper', quantity: '' });
+  });
+});
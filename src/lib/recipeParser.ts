@@ -0,0 +1,180 @@
+import { parseItemInput } from './parseItemInput';
+import { AMOUNT_PATTERN, UNIT_PATTERN } from './quantity';
+
+// Turns a pasted recipe into a name, a serving count and ingredient lines.
+// Recipe pages almost always embed schema.org Recipe data as JSON-LD, which
+// is read first; anything else is treated as plain text with an optional
+// "Ingredients" heading. Nothing is fetched - the user pastes the page source
+// or the text itself.
+
+export interface ParsedRecipe {
+  name: string;
+  servings: number | null;
+  // Ingredient lines as written in the recipe, e.g. "2 cups flour, sifted"
+  ingredients: string[];
+}
+
+export interface RecipeIngredientInput {
+  name: string;
+  // Normalized quantity text, or '' when none was given
+  quantity: string;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+const JSON_LD_PATTERN = /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+const SERVINGS_PATTERN = /\b(?:serves|servings|serving size|yield|yields|makes)\b\s*:?\s*(\d+)/i;
+const INGREDIENTS_HEADING = /^ingredients\s*:?$/i;
+// Headings that end the ingredient list in plain text
+const SECTION_HEADING = /^(?:method|instructions|directions|preparation|steps|notes|nutrition)\b\s*:?$/i;
+// Size words describe what to pick, not what to put on the list
+const SIZE_WORDS = /^(?:large|medium|small|fresh)\s+/i;
+// "2-3 cloves", "1 to 2 cups": buy enough for the upper bound
+const AMOUNT_RANGE = new RegExp(`^(?:${AMOUNT_PATTERN})\\s*(?:-|–|to\\b)\\s*(?=${AMOUNT_PATTERN})`, 'i');
+// "Juice of 1 lemon", "zest and juice of 2 limes": the fruit is what to buy
+const PART_OF = new RegExp(`^[a-z][a-z ]*?\\s+of\\s+(?=(?:${AMOUNT_PATTERN})\\s)`, 'i');
+// The size of each can or pack in "1 15-ounce can black beans"
+const PACK_SIZE = new RegExp(
+  `^(${AMOUNT_PATTERN})\\s+\\d+(?:[.,]\\d+)?\\s*-?\\s*(?:${UNIT_PATTERN})\\.?\\s+(?=(?:${UNIT_PATTERN})\\b)`,
+  'i'
+);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', quot: '"', apos: "'", lt: '<', gt: '>', nbsp: ' ',
+  frac12: '½', frac14: '¼', frac34: '¾', frac13: '⅓', frac23: '⅔', frac18: '⅛',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const stripTags = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>|<\/(?:p|li|div|h[1-6]|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  );
+
+const cleanText = (text: string): string => stripTags(text).replace(/\s+/g, ' ').trim();
+
+const isRecipeNode = (node: JsonLdNode): boolean => {
+  const type = node['@type'];
+  return Array.isArray(type) ? type.includes('Recipe') : type === 'Recipe';
+};
+
+// Recipe data can be the top-level object, one of an array, or tucked into an @graph
+const findRecipeNode = (data: unknown): JsonLdNode | null => {
+  if (Array.isArray(data)) {
+    for (const entry of data) {
+      const found = findRecipeNode(entry);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  const node = data as JsonLdNode;
+  if (isRecipeNode(node)) {
+    return node;
+  }
+  return findRecipeNode(node['@graph']);
+};
+
+// recipeYield may be 4, "4", "4 servings" or ["4", "4 servings"]
+const parseYield = (value: unknown): number | null => {
+  const values = Array.isArray(value) ? value : [value];
+  for (const entry of values) {
+    const match = String(entry ?? '').match(/\d+/);
+    if (match && Number(match[0]) > 0) {
+      return Number(match[0]);
+    }
+  }
+  return null;
+};
+
+const parseJsonLd = (input: string): ParsedRecipe | null => {
+  for (const [, json] of input.matchAll(JSON_LD_PATTERN)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json.trim());
+    } catch (error) {
+      console.warn('Skipping unreadable JSON-LD block:', error);
+      continue;
+    }
+
+    const recipe = findRecipeNode(data);
+    const ingredients = recipe?.recipeIngredient ?? recipe?.ingredients;
+    if (recipe && Array.isArray(ingredients)) {
+      return {
+        name: cleanText(String(recipe.name ?? '')),
+        servings: parseYield(recipe.recipeYield),
+        ingredients: ingredients.map(line => cleanText(String(line))).filter(Boolean),
+      };
+    }
+  }
+  return null;
+};
+
+// Drops list bullets and numbering: "- 2 eggs", "• salt", "3. 1 cup milk"
+const stripBullet = (line: string): string =>
+  line.replace(/^(?:[-*•·–▢□☐]+|\d+[.)])\s+/, '').trim();
+
+const parsePlainText = (text: string): ParsedRecipe => {
+  const lines = text.split('\n').map(line => line.trim());
+  const servingsMatch = text.match(SERVINGS_PATTERN);
+  const headingIndex = lines.findIndex(line => INGREDIENTS_HEADING.test(line));
+
+  let name = '';
+  let body = lines;
+  if (headingIndex !== -1) {
+    name = lines.slice(0, headingIndex).find(line => line && !SERVINGS_PATTERN.test(line)) ?? '';
+    body = lines.slice(headingIndex + 1);
+  }
+  const end = body.findIndex(line => SECTION_HEADING.test(line));
+
+  return {
+    name,
+    servings: servingsMatch ? Number(servingsMatch[1]) : null,
+    ingredients: (end === -1 ? body : body.slice(0, end))
+      .map(stripBullet)
+      .filter(line => line && !SERVINGS_PATTERN.test(line)),
+  };
+};
+
+export const parseRecipe = (input: string): ParsedRecipe => {
+  const fromJsonLd = parseJsonLd(input);
+  if (fromJsonLd) {
+    return fromJsonLd;
+  }
+  const isHtml = /<[a-z][^>]*>/i.test(input);
+  return parsePlainText(isHtml ? stripTags(input) : input);
+};
+
+// Turns an ingredient line into something to buy: "2 cups flour, sifted"
+// becomes 2 cups of flour. Notes in brackets, preparation after a comma and
+// "to taste" are dropped, as are can sizes; a range such as "2-3" counts as
+// its upper bound.
+export const parseIngredient = (line: string): RecipeIngredientInput => {
+  const text = line
+    // "1 ½" -> "1½", which the quantity parser reads as a mixed number
+    .replace(/(\d)\s+([½⅓⅔¼¾⅛])/g, '$1$2')
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/,.*$/, '')
+    .replace(/\b(?:to taste|as needed|optional)\b/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(PART_OF, '')
+    .replace(AMOUNT_RANGE, '')
+    .replace(PACK_SIZE, '$1 ');
+  const parsed = parseItemInput(text || line);
+  return { name: parsed.name.replace(SIZE_WORDS, '') || parsed.name, quantity: parsed.quantityText };
+};
@@ -0,0 +1,81 @@
+import { CATEGORIES } from './categorizer';
+import { normalizeItemName } from './itemNames';
+
+// Store profiles describe the order a store's aisles are walked in, so the
+// list can be sorted into route order while shopping without touching the
+// order saved in the sheet. Layouts are kept on this device.
+
+export interface AisleStop {
+  id: string;
+  // A stop matches either every item in a category, or one specific item
+  // (e.g. bananas by the entrance, away from the rest of the produce)
+  type: 'category' | 'item';
+  value: string;
+}
+
+export interface StoreLayout {
+  id: string;
+  name: string;
+  stops: AisleStop[];
+}
+
+const LAYOUTS_KEY = 'storeLayouts';
+const SHOPPING_STORE_KEY = 'shoppingStoreId';
+
+export const loadStoreLayouts = (): StoreLayout[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LAYOUTS_KEY) || '[]');
+  } catch (error) {
+    console.error('Error parsing store layouts:', error);
+    return [];
+  }
+};
+
+export const saveStoreLayouts = (layouts: StoreLayout[]): void => {
+  localStorage.setItem(LAYOUTS_KEY, JSON.stringify(layouts));
+};
+
+export const createStoreLayout = (name: string): StoreLayout => ({
+  id: crypto.randomUUID(),
+  name,
+  // Start from the default category order; most stores only need a few moves
+  stops: CATEGORIES.map(category => ({ id: crypto.randomUUID(), type: 'category', value: category })),
+});
+
+export const getShoppingStoreId = (): string | null => localStorage.getItem(SHOPPING_STORE_KEY);
+
+export const setShoppingStoreId = (storeId: string | null): void => {
+  if (storeId) {
+    localStorage.setItem(SHOPPING_STORE_KEY, storeId);
+  } else {
+    localStorage.removeItem(SHOPPING_STORE_KEY);
+  }
+};
+
+// Index of the first stop an item belongs to; item stops win over category
+// stops. Items that match no stop sort after all of them.
+const stopIndexFor = (layout: StoreLayout, item: { name: string; category?: string }): number => {
+  const name = normalizeItemName(item.name);
+  const category = (item.category || '').trim().toLowerCase();
+
+  const itemStop = layout.stops.findIndex(stop => stop.type === 'item' && normalizeItemName(stop.value) === name);
+  if (itemStop !== -1) {
+    return itemStop;
+  }
+
+  const categoryStop = layout.stops.findIndex(
+    stop => stop.type === 'category' && category !== '' && stop.value.trim().toLowerCase() === category
+  );
+  return categoryStop === -1 ? layout.stops.length : categoryStop;
+};
+
+// Sorts items into the store's walking order; items at the same stop keep
+// their existing relative order.
+export const sortByStoreLayout = <T extends { name: string; category?: string }>(
+  items: T[],
+  layout: StoreLayout
+): T[] =>
+  items
+    .map((item, index) => ({ item, index, stop: stopIndexFor(layout, item) }))
+    .sort((a, b) => a.stop - b.stop || a.index - b.index)
+    .map(({ item }) => item);
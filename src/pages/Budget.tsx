@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { format, subMonths, startOfMonth } from 'date-fns';
+import { ArrowLeft, Plus, Trash2, Wallet } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { Link } from 'react-router-dom';
+import { getActiveProfile } from '@/services/profiles';
+import {
+  createTrip,
+  loadBudget,
+  loadTrips,
+  saveBudget,
+  saveTrips,
+  spendByCategory,
+  spendByMonth,
+  spendByStore,
+  summarizeMonth,
+  type Trip,
+} from '@/services/budget';
+import { loadStoreLayouts } from '@/lib/storeLayouts';
+import { formatPrice, parsePrice } from '@/lib/prices';
+
+// Months shown in the charts, including this one
+const CHART_MONTHS = 6;
+const NO_STORE = 'none';
+
+const chartConfig = {
+  total: { label: 'Spent', color: 'hsl(142 71% 45%)' },
+} satisfies ChartConfig;
+
+const Budget = () => {
+  const [profile] = useState(getActiveProfile);
+  const [stores] = useState(loadStoreLayouts);
+  const [trips, setTrips] = useState<Trip[]>(() => loadTrips(profile));
+  const [budget, setBudget] = useState(() => loadBudget(profile));
+  const [budgetInput, setBudgetInput] = useState(() => (budget ? String(budget) : ''));
+  const [tripDate, setTripDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [tripStore, setTripStore] = useState(NO_STORE);
+  const [tripTotal, setTripTotal] = useState('');
+  const { toast } = useToast();
+
+  const month = summarizeMonth(trips, 0);
+  const chartStart = startOfMonth(subMonths(new Date(), CHART_MONTHS - 1));
+  const recentTrips = trips.filter((trip) => new Date(trip.at) >= chartStart);
+  const byMonth = spendByMonth(trips, CHART_MONTHS);
+  const byCategory = spendByCategory(recentTrips);
+  const byStore = spendByStore(recentTrips);
+  const sortedTrips = [...trips].sort((a, b) => b.at.localeCompare(a.at));
+
+  const updateTrips = (updated: Trip[]) => {
+    setTrips(updated);
+    saveTrips(profile, updated);
+  };
+
+  const handleSaveBudget = () => {
+    const amount = budgetInput.trim() ? parsePrice(budgetInput) : null;
+    if (budgetInput.trim() && (amount === null || amount <= 0)) {
+      toast({
+        title: "Invalid budget",
+        description: "Enter a monthly amount such as 400, or leave it empty for no budget.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveBudget(profile, amount);
+    setBudget(amount);
+    toast({
+      title: amount ? "Budget saved" : "Budget removed",
+      description: amount ? `Your monthly budget is ${formatPrice(amount)}.` : "Spending is still tracked.",
+    });
+  };
+
+  const handleAddTrip = () => {
+    const total = parsePrice(tripTotal);
+    if (total === null || total <= 0 || !tripDate) {
+      return;
+    }
+    const [year, monthIndex, day] = tripDate.split('-').map(Number);
+    const store = stores.find((layout) => layout.id === tripStore) ?? null;
+    updateTrips([...trips, createTrip(total, {}, store, new Date(year, monthIndex - 1, day, 12))]);
+    setTripTotal('');
+  };
+
+  const handleDeleteTrip = (trip: Trip) => {
+    updateTrips(trips.filter((existing) => existing.id !== trip.id));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center">
+          <Link to="/">
+            <Button variant="ghost" size="sm" className="mr-3 p-2">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">Budget</h1>
+            <p className="text-sm text-gray-500">{formatPrice(month.spent)} spent this month</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6 space-y-6">
+        <Card className="p-4 bg-white shadow-sm">
+          <Label htmlFor="monthlyBudget" className="text-sm font-medium">
+            Monthly Budget
+          </Label>
+          <div className="flex gap-2 mt-1">
+            <Input
+              id="monthlyBudget"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              inputMode="decimal"
+              placeholder="e.g. 400"
+              className="flex-1"
+            />
+            <Button onClick={handleSaveBudget} className="bg-green-600 hover:bg-green-700 text-white">
+              Save
+            </Button>
+          </div>
+          {budget !== null && (
+            <div className="mt-4 space-y-2">
+              <Progress value={Math.min((month.spent / budget) * 100, 100)} />
+              <p className={`text-sm ${month.projected > budget ? 'text-amber-700' : 'text-gray-600'}`}>
+                {formatPrice(month.spent)} of {formatPrice(budget)} spent. At this pace the month ends at{' '}
+                {formatPrice(month.projected)}.
+              </p>
+            </div>
+          )}
+        </Card>
+
+        {trips.length === 0 ? (
+          <Card className="p-8 text-center bg-white shadow-sm">
+            <Wallet className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No trips yet</h3>
+            <p className="text-gray-500">
+              Clear checked-off items after shopping to record a trip, or add one below.
+            </p>
+          </Card>
+        ) : (
+          <>
+            <Card className="p-4 bg-white shadow-sm">
+              <h2 className="font-semibold text-gray-900 mb-3">Spend by month</h2>
+              <ChartContainer config={chartConfig} className="w-full">
+                <BarChart data={byMonth}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  {budget !== null && <ReferenceLine y={budget} stroke="#d97706" strokeDasharray="4 4" />}
+                  <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </Card>
+
+            <Card className="p-4 bg-white shadow-sm">
+              <h2 className="font-semibold text-gray-900 mb-3">By category · last {CHART_MONTHS} months</h2>
+              <ChartContainer
+                config={chartConfig}
+                className="w-full aspect-auto"
+                style={{ height: Math.max(byCategory.length * 32, 96) }}
+              >
+                <BarChart data={byCategory} layout="vertical" margin={{ left: 8 }}>
+                  <XAxis type="number" hide />
+                  <YAxis type="category" dataKey="category" tickLine={false} axisLine={false} width={110} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </Card>
+
+            <Card className="p-4 bg-white shadow-sm">
+              <h2 className="font-semibold text-gray-900 mb-3">By store · last {CHART_MONTHS} months</h2>
+              <ChartContainer
+                config={chartConfig}
+                className="w-full aspect-auto"
+                style={{ height: Math.max(byStore.length * 32, 96) }}
+              >
+                <BarChart data={byStore} layout="vertical" margin={{ left: 8 }}>
+                  <XAxis type="number" hide />
+                  <YAxis type="category" dataKey="store" tickLine={false} axisLine={false} width={110} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="total" fill="var(--color-total)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </Card>
+          </>
+        )}
+
+        <Card className="p-4 bg-white shadow-sm">
+          <h2 className="font-semibold text-gray-900 mb-3">Trips</h2>
+          <div className="flex gap-2 mb-3">
+            <Input
+              type="date"
+              value={tripDate}
+              onChange={(e) => setTripDate(e.target.value)}
+              aria-label="Date"
+              className="w-36"
+            />
+            <Select value={tripStore} onValueChange={setTripStore}>
+              <SelectTrigger className="flex-1" aria-label="Store">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_STORE}>No store</SelectItem>
+                {stores.map((store) => (
+                  <SelectItem key={store.id} value={store.id}>
+                    {store.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={tripTotal}
+              onChange={(e) => setTripTotal(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddTrip()}
+              inputMode="decimal"
+              placeholder="Total paid"
+              className="flex-1"
+            />
+            <Button onClick={handleAddTrip} disabled={!parsePrice(tripTotal)} className="px-4">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {sortedTrips.length > 0 && (
+            <div className="divide-y mt-3">
+              {sortedTrips.map((trip) => (
+                <div key={trip.id} className="flex items-center gap-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-900">{formatPrice(trip.total)}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {format(new Date(trip.at), 'EEE d MMM yyyy')}
+                      {trip.storeName && ` · ${trip.storeName}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteTrip(trip)}
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2"
+                    title="Delete trip"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Budget;
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, History as HistoryIcon, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { getActiveProfile } from '@/services/profiles';
+import { loadHistory, type HistoryEntry } from '@/services/purchaseHistory';
+
+const dayKey = (iso: string): string => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const formatDay = (key: string): string => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const History = () => {
+  const [profile] = useState(getActiveProfile);
+  const [search, setSearch] = useState('');
+  // YYYY-MM-DD, inclusive
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['purchaseHistory', profile.id],
+    queryFn: () => loadHistory(profile),
+  });
+
+  const days = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = (history ?? []).filter((entry) => {
+      const day = dayKey(entry.at);
+      return (
+        (!term || entry.name.toLowerCase().includes(term) || entry.category.toLowerCase().includes(term)) &&
+        (!fromDate || day >= fromDate) &&
+        (!toDate || day <= toDate)
+      );
+    });
+
+    // History is newest first, so days come out newest first too
+    const byDay = new Map<string, HistoryEntry[]>();
+    filtered.forEach((entry) => {
+      const day = dayKey(entry.at);
+      byDay.set(day, [...(byDay.get(day) ?? []), entry]);
+    });
+    return [...byDay.entries()];
+  }, [history, search, fromDate, toDate]);
+
+  const hasFilters = !!(search || fromDate || toDate);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center">
+          <Link to="/">
+            <Button variant="ghost" size="sm" className="mr-3 p-2">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-semibold text-gray-900">History</h1>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6">
+        <Card className="p-4 mb-6 bg-white shadow-sm space-y-3">
+          <div className="relative">
+            <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search items or categories"
+              className="pl-9"
+            />
+          </div>
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Label htmlFor="historyFrom" className="text-xs text-gray-500">
+                From
+              </Label>
+              <Input
+                id="historyFrom"
+                type="date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="historyTo" className="text-xs text-gray-500">
+                To
+              </Label>
+              <Input
+                id="historyTo"
+                type="date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </div>
+          </div>
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSearch('');
+                setFromDate('');
+                setToDate('');
+              }}
+              className="text-gray-500 h-7"
+            >
+              Clear filters
+            </Button>
+          )}
+        </Card>
+
+        {isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading history...</div>
+        ) : days.length === 0 ? (
+          <Card className="p-8 text-center bg-white shadow-sm">
+            <HistoryIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {hasFilters ? 'Nothing matches' : 'No history yet'}
+            </h3>
+            <p className="text-gray-500">
+              {hasFilters
+                ? 'Try a different search or date range.'
+                : 'Items you clear or delete from your list will show up here.'}
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {days.map(([day, entries]) => (
+              <div key={day}>
+                <h2 className="text-sm font-medium text-gray-600 mb-2">{formatDay(day)}</h2>
+                <Card className="bg-white shadow-sm divide-y">
+                  {entries.map((entry) => (
+                    <div key={entry.id} className="flex items-center gap-3 px-4 py-3">
+                      <div className="flex-1 min-w-0">
+                        <span className="text-gray-900">{entry.name}</span>
+                        {entry.quantity && (
+                          <span className="text-sm text-gray-500 ml-2">{entry.quantity}</span>
+                        )}
+                        {entry.listName && (
+                          <p className="text-xs text-gray-400 truncate">{entry.listName}</p>
+                        )}
+                      </div>
+                      <Badge
+                        variant="outline"
+                        className={entry.kind === 'purchased' ? 'border-green-200 text-green-700' : 'text-gray-500'}
+                      >
+                        {entry.kind === 'purchased' ? 'Bought' : 'Removed'}
+                      </Badge>
+                      <span className="text-xs text-gray-400 w-12 text-right">{formatTime(entry.at)}</span>
+                    </div>
+                  ))}
+                </Card>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
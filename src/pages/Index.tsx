@@ -1,13 +1,42 @@
 
-import React, { useState, useEffect } from 'react';
-import { Plus, Settings, Trash2, RefreshCw, AlertCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Settings, Trash2, RefreshCw, AlertCircle, CloudOff, Archive, MoreVertical, Tags, List, LayoutList, ShoppingCart, Store, Check, Lock, Package, History, Repeat, X, ChefHat, CalendarDays, Merge, Wallet, ReceiptText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
 import { Link } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { googleSheetsService } from '@/services/googleSheetsService';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { createItemId, hasNamedLists, sameItemContents, type GroceryItem } from '@/services/groceryListBackend';
+import { getActiveListName, getBackendForProfile, getListBackend, getListScope } from '@/services/backends';
+import { getActiveProfile, loadProfiles, profileScope, setActiveProfileId } from '@/services/profiles';
+import { getVaultStatus, lockVault } from '@/services/credentialVault';
+import { checkOutItems } from '@/services/checkout';
+import { loadHistory, rankBuyAgain, recordHistory, type BuyAgainSuggestion, type HistoryKind } from '@/services/purchaseHistory';
+import {
+  dismissReminders,
+  findDueItems,
+  getAutoAddReminders,
+  loadDismissedReminders,
+  setAutoAddReminders,
+  type RecurringItem,
+} from '@/services/recurringItems';
+import { estimateCost, loadPriceBook } from '@/services/priceBook';
+import { createTrip, loadBudget, loadTrips, saveTrips, summarizeMonth } from '@/services/budget';
+import { formatPrice } from '@/lib/prices';
+import { normalizeItemName } from '@/lib/itemNames';
+import { applyPendingMutations, type PendingMutation } from '@/services/mutationQueue';
+import { useListQueue } from '@/hooks/use-list-queue';
+import { useListSync } from '@/hooks/use-list-sync';
 import {
   DndContext,
   closestCenter,
@@ -24,19 +53,47 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { SortableItem } from '@/components/SortableItem';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { EditItemDialog } from '@/components/EditItemDialog';
+import { DuplicateItemDialog, type DuplicatePrompt } from '@/components/DuplicateItemDialog';
+import { MergeDuplicatesDialog } from '@/components/MergeDuplicatesDialog';
+import { TripTotalDialog, type TripCheckout } from '@/components/TripTotalDialog';
+import { findDuplicate, findDuplicateGroups, mergeGroup, type DuplicateGroup } from '@/lib/duplicates';
+import { ListSwitcher } from '@/components/ListSwitcher';
+import { GroupedItemList, GROUP_DROP_PREFIX } from '@/components/GroupedItemList';
+import { parseItemInput } from '@/lib/parseItemInput';
+import { classifyItem, groupByCategory, rememberCategory } from '@/lib/categorizer';
+import { getShoppingStoreId, loadStoreLayouts, setShoppingStoreId, sortByStoreLayout } from '@/lib/storeLayouts';
 
-interface GroceryItem {
-  id: string;
-  name: string;
-  quantity?: string;
-  category?: string;
-}
+// Item IDs the arrivals check below has already looked at, per list. Kept
+// outside the screen so coming back to it from another page checks what
+// arrived meanwhile rather than taking it as already seen.
+const seenItemIds = new Map<string, Set<string>>();
 
 const Index = () => {
   const [newItem, setNewItem] = useState('');
-  const [localItems, setLocalItems] = useState<GroceryItem[]>([]);
+  const [editingItem, setEditingItem] = useState<GroceryItem | null>(null);
+  // Remembered per device, since grouping suits some screens and shoppers better than others
+  const [viewMode, setViewMode] = useState<'manual' | 'grouped'>(
+    () => (localStorage.getItem('listViewMode') === 'grouped' ? 'grouped' : 'manual')
+  );
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  const [storeLayouts] = useState(loadStoreLayouts);
+  const [shoppingStoreId, setShoppingStore] = useState(getShoppingStoreId);
+  const shoppingStore = storeLayouts.find((layout) => layout.id === shoppingStoreId) ?? null;
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [profiles] = useState(loadProfiles);
+  const [profile, setProfile] = useState(getActiveProfile);
+  const backendType = profile.backendType;
+  const activeBackend = getBackendForProfile(profile);
+  const isSheetsBackend = backendType === 'googleSheets';
+  // Backends with several lists (spreadsheet tabs) get a list switcher; each
+  // profile and list has its own cache entry and its own queue of pending changes
+  const namedLists = hasNamedLists(activeBackend) ? activeBackend : null;
+  const [activeList, setActiveList] = useState(() => getActiveListName(profile));
+  const backend = getListBackend(profile, activeList);
+  const listScope = getListScope(profile, activeList);
 
   // Set up sensors for drag and drop
   const sensors = useSensors(
@@ -50,118 +107,468 @@ const Index = () => {
     })
   );
 
-  // Fetch grocery items from Google Sheets
-  const { data: groceryItems = [], isLoading, error, refetch } = useQuery({
-    queryKey: ['groceryItems'],
-    queryFn: googleSheetsService.getGroceryItems,
-    refetchInterval: 30000, // Auto-refresh every 30 seconds
+  // Fetch grocery items from the selected backend. Later changes from other
+  // devices arrive through the sync below rather than wholesale refetches.
+  const { data: groceryItems, isLoading, error, refetch } = useQuery({
+    queryKey: ['groceryItems', listScope],
+    queryFn: backend.getGroceryItems,
+    refetchOnWindowFocus: false,
   });
 
-  // Update local items when query data changes
+  // Rows being dragged or edited are not moved or changed under the user
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const syncHold = useMemo(
+    () => ({
+      itemIds: new Set([draggingId, editingItem?.id].filter((id): id is string => !!id)),
+      order: draggingId !== null,
+    }),
+    [draggingId, editingItem]
+  );
+  const { syncNow } = useListSync(listScope, backend, { enabled: isSheetsBackend, hold: syncHold });
+
+  const { pendingEntries, isOnline, enqueue, conflictDialog } = useListQueue(listScope, backend, {
+    // Pick up the stored version of whatever was sent or turned away
+    onChanged: () => syncNow(),
+  });
+
+  // Duplicates waiting for the user to merge them or keep both, one at a time
+  const [duplicatePrompts, setDuplicatePrompts] = useState<DuplicatePrompt[]>([]);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[] | null>(null);
+  // Categorize items that show up from elsewhere (Alexa, other phones) with
+  // no category, and offer to merge them into a row that is already there.
+  // Items already on the list the first time it is opened are left alone;
+  // the bulk actions in the header menu cover those. Items added on this
+  // screen are marked as seen when they are queued, since they have been
+  // checked for duplicates already.
   useEffect(() => {
-    if (groceryItems && groceryItems.length > 0) {
-      setLocalItems(groceryItems);
+    if (!groceryItems) {
+      return;
+    }
+    const seen = seenItemIds.get(listScope);
+    if (!seen) {
+      seenItemIds.set(listScope, new Set(groceryItems.map((item) => item.id)));
+      return;
     }
-  }, [groceryItems]);
 
-  // Add item mutation
-  const addItemMutation = useMutation({
-    mutationFn: (item: GroceryItem) => googleSheetsService.addGroceryItem(item),
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Item added successfully!",
+    const arrivals: DuplicatePrompt[] = [];
+    groceryItems
+      .filter((item) => !seen.has(item.id))
+      .forEach((item) => {
+        const existing = findDuplicate(groceryItems.filter((other) => seen.has(other.id)), item.name);
+        seen.add(item.id);
+        if (existing) {
+          arrivals.push({ item, existing, onList: true });
+        }
+        const category = item.category ? null : classifyItem(item.name);
+        if (category) {
+          enqueue({ type: 'update', item: { ...item, category }, previous: item });
+        }
       });
-      setNewItem('');
-      queryClient.invalidateQueries({ queryKey: ['groceryItems'] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
+    if (arrivals.length > 0) {
+      setDuplicatePrompts((prompts) => [...prompts, ...arrivals]);
+    }
+  }, [groceryItems, listScope, enqueue]);
 
-  // Delete item mutation
-  const deleteItemMutation = useMutation({
-    mutationFn: (itemId: string) => googleSheetsService.deleteGroceryItem(itemId),
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Item deleted successfully!",
-      });
-      queryClient.invalidateQueries({ queryKey: ['groceryItems'] });
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
+  // Show the server's list with any changes that have not been sent yet
+  const localItems = useMemo(
+    () => applyPendingMutations(groceryItems ?? [], pendingEntries),
+    [groceryItems, pendingEntries]
+  );
+
+  // Checked-off items are listed in their own section at the bottom
+  const uncheckedItems = localItems.filter((item) => !item.checked);
+  const checkedItems = localItems.filter((item) => item.checked);
+
+  // What the trip should cost, from item prices or the last price paid at
+  // the store being shopped at
+  const [priceBook, setPriceBook] = useState(() => loadPriceBook(profile));
+  const estimate = useMemo(
+    () => estimateCost(localItems, priceBook, shoppingStoreId),
+    [localItems, priceBook, shoppingStoreId]
+  );
+
+  // Spending so far this month against the budget, if one is set
+  const [budget, setBudget] = useState(() => loadBudget(profile));
+  const [trips, setTrips] = useState(() => loadTrips(profile));
+  const [checkout, setCheckout] = useState<(TripCheckout & { costs: Record<string, number> }) | null>(null);
+  const month = useMemo(() => summarizeMonth(trips, estimate.total), [trips, estimate.total]);
+
+  const pendingItemIds = useMemo(
+    () => new Set(pendingEntries.flatMap(({ mutation }) => {
+      if (mutation.type === 'addMany') {
+        return mutation.items.map((item) => item.id);
+      }
+      return mutation.type === 'add' || mutation.type === 'update' ? [mutation.item.id] : [];
+    })),
+    [pendingEntries]
+  );
+
+  const { data: history } = useQuery({
+    queryKey: ['purchaseHistory', profile.id],
+    queryFn: () => loadHistory(profile),
   });
 
-  // Reorder items mutation
-  const reorderItemsMutation = useMutation({
-    mutationFn: (reorderedItems: GroceryItem[]) => googleSheetsService.reorderGroceryItems(reorderedItems),
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Items reordered successfully!",
+  const listedNames = useMemo(
+    () => new Set(localItems.map((item) => normalizeItemName(item.name))),
+    [localItems]
+  );
+
+  // History is kept for the whole profile; suggestions for the open list
+  // come from what was bought off that list only
+  const listHistory = useMemo(
+    () => (history ?? []).filter((entry) => entry.listName === activeList),
+    [history, activeList]
+  );
+
+  // Frequent and recent purchases that are not on the list right now
+  const buyAgain = useMemo(() => rankBuyAgain(listHistory, listedNames), [listHistory, listedNames]);
+
+  // Regular purchases that are due again, judged by how often they are bought
+  const [dismissedReminders, setDismissedReminders] = useState(() => loadDismissedReminders(profile));
+  const [autoAddDue, setAutoAddDue] = useState(() => getAutoAddReminders(profile));
+  const dueItems = useMemo(
+    () => findDueItems(listHistory, listedNames, dismissedReminders),
+    [listHistory, listedNames, dismissedReminders]
+  );
+
+  // With auto-add on, due items go straight onto the list. They are then
+  // dismissed for this cycle so deleting one does not bring it back.
+  useEffect(() => {
+    if (!autoAddDue || !groceryItems || dueItems.length === 0) {
+      return;
+    }
+    dueItems.forEach((item) => {
+      enqueue({
+        type: 'add',
+        item: {
+          id: createItemId(),
+          name: item.name,
+          quantity: item.quantity,
+          category: item.category || (classifyItem(item.name) ?? ''),
+        },
       });
-      queryClient.invalidateQueries({ queryKey: ['groceryItems'] });
-    },
-    onError: (error: Error) => {
+    });
+    setDismissedReminders(dismissReminders(profile, dueItems));
+    toast({
+      title: "Regular items added",
+      description: dueItems.map((item) => item.name).join(', '),
+    });
+  }, [autoAddDue, groceryItems, dueItems, enqueue, profile, toast]);
+
+  const logHistory = (items: GroceryItem[], kind: HistoryKind) => {
+    recordHistory(profile, activeList, items, kind).then(() =>
+      queryClient.invalidateQueries({ queryKey: ['purchaseHistory', profile.id] })
+    );
+  };
+
+  const queueMutation = (mutation: PendingMutation) => {
+    if (mutation.type === 'add') {
+      seenItemIds.get(listScope)?.add(mutation.item.id);
+    }
+    enqueue(mutation);
+    if (!navigator.onLine) {
       toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
+        title: "Saved offline",
+        description: "Your change will sync when you're back online.",
       });
-      // Revert local state on error
-      setLocalItems(groceryItems);
-    },
-  });
+    }
+  };
+
+  // "2 kg chicken breast" or "milk x3" -> separate name and quantity
+  const parsedNewItem = parseItemInput(newItem);
 
   const handleAddItem = () => {
-    if (newItem.trim()) {
+    if (parsedNewItem.name) {
       const item: GroceryItem = {
-        id: `temp_${Date.now()}`,
-        name: newItem.trim(),
-        quantity: '',
-        category: '',
+        id: createItemId(),
+        name: parsedNewItem.name,
+        quantity: parsedNewItem.quantityText,
+        category: classifyItem(parsedNewItem.name) ?? '',
       };
-      addItemMutation.mutate(item);
+      const existing = findDuplicate(localItems, item.name);
+      if (existing) {
+        setDuplicatePrompts((prompts) => [...prompts, { item, existing, onList: false }]);
+      } else {
+        queueMutation({ type: 'add', item });
+      }
+      setNewItem('');
     }
   };
 
+  const resolveDuplicatePrompt = (prompt: DuplicatePrompt) => {
+    setDuplicatePrompts((prompts) => prompts.filter((other) => other !== prompt));
+  };
+
+  const handleMergeDuplicate = (prompt: DuplicatePrompt) => {
+    resolveDuplicatePrompt(prompt);
+    // The row may have changed while the prompt was open
+    const existing = localItems.find((item) => item.id === prompt.existing.id);
+    if (!existing) {
+      handleKeepBothDuplicate(prompt);
+      return;
+    }
+    queueMutation({
+      type: 'update',
+      item: mergeGroup({ keep: existing, duplicates: [prompt.item] }),
+      previous: existing,
+    });
+    if (prompt.onList) {
+      queueMutation({ type: 'delete', itemId: prompt.item.id });
+    }
+  };
+
+  const handleKeepBothDuplicate = (prompt: DuplicatePrompt) => {
+    resolveDuplicatePrompt(prompt);
+    if (!prompt.onList) {
+      queueMutation({ type: 'add', item: prompt.item });
+    }
+  };
+
+  const handleFindDuplicates = () => {
+    const groups = findDuplicateGroups(localItems);
+    if (groups.length === 0) {
+      toast({
+        title: "No duplicates",
+        description: "Every item is on your list only once.",
+      });
+      return;
+    }
+    setDuplicateGroups(groups);
+  };
+
+  const handleMergeDuplicates = (groups: DuplicateGroup[]) => {
+    setDuplicateGroups(null);
+    groups.forEach((group) => {
+      queueMutation({ type: 'update', item: mergeGroup(group), previous: group.keep });
+      group.duplicates.forEach((item) => queueMutation({ type: 'delete', itemId: item.id }));
+    });
+    const removed = groups.reduce((count, group) => count + group.duplicates.length, 0);
+    toast({
+      title: "Duplicates merged",
+      description: `Removed ${removed} duplicate ${removed === 1 ? 'row' : 'rows'}.`,
+    });
+  };
+
+  const handleBuyAgain = (suggestion: BuyAgainSuggestion) => {
+    queueMutation({
+      type: 'add',
+      item: {
+        id: createItemId(),
+        name: suggestion.name,
+        quantity: suggestion.quantity,
+        category: suggestion.category || (classifyItem(suggestion.name) ?? ''),
+      },
+    });
+  };
+
+  const handleAddDueItem = (item: RecurringItem) => {
+    queueMutation({
+      type: 'add',
+      item: {
+        id: createItemId(),
+        name: item.name,
+        quantity: item.quantity,
+        category: item.category || (classifyItem(item.name) ?? ''),
+      },
+    });
+  };
+
+  const handleDismissDueItem = (item: RecurringItem) => {
+    setDismissedReminders(dismissReminders(profile, [item]));
+  };
+
+  const handleAutoAddDueChange = () => {
+    setAutoAddReminders(profile, !autoAddDue);
+    setAutoAddDue(!autoAddDue);
+  };
+
   const handleDeleteItem = (item: GroceryItem) => {
-    deleteItemMutation.mutate(item.id);
+    queueMutation({ type: 'delete', itemId: item.id });
+    logHistory([item], 'removed');
+  };
+
+  const handleToggleChecked = (item: GroceryItem) => {
+    queueMutation({ type: 'update', item: { ...item, checked: !item.checked }, previous: item });
+  };
+
+  const handleSaveEdit = (item: GroceryItem) => {
+    const previous = editingItem;
+    setEditingItem(null);
+    if (previous && !sameItemContents(previous, item)) {
+      if (previous.category !== item.category) {
+        // Learn from the correction so the next add of this item gets it right
+        rememberCategory(item.name, item.category || '');
+      }
+      queueMutation({ type: 'update', item, previous });
+    }
+  };
+
+  const handleCategorizeItems = () => {
+    let categorized = 0;
+    localItems
+      .filter((item) => !item.category)
+      .forEach((item) => {
+        const category = classifyItem(item.name);
+        if (category) {
+          enqueue({ type: 'update', item: { ...item, category }, previous: item });
+          categorized++;
+        }
+      });
+
+    toast({
+      title: categorized > 0 ? "Items categorized" : "Nothing to categorize",
+      description: categorized > 0
+        ? `Assigned categories to ${categorized} ${categorized === 1 ? 'item' : 'items'}.`
+        : "No uncategorized items could be matched to a category.",
+    });
+  };
+
+  const handleClearChecked = () => {
+    queueMutation({ type: 'archive', items: checkedItems });
+    const { costs, priceBook: book, history } = checkOutItems(profile, activeList, checkedItems, shoppingStoreId);
+    setPriceBook(book);
+    history.then(() => queryClient.invalidateQueries({ queryKey: ['purchaseHistory', profile.id] }));
+    toast({
+      title: "Checked items cleared",
+      description: `${checkedItems.length} ${checkedItems.length === 1 ? 'item' : 'items'} moved to the archive and your pantry.`,
+    });
+    // Offer to record what the trip cost
+    setCheckout({
+      costs,
+      estimate: Object.values(costs).reduce((sum, cost) => sum + cost, 0),
+      itemCount: checkedItems.length,
+      storeName: shoppingStore?.name ?? '',
+    });
+  };
+
+  const handleSaveTrip = (total: number) => {
+    if (checkout) {
+      const updated = [...loadTrips(profile), createTrip(total, checkout.costs, shoppingStore)];
+      saveTrips(profile, updated);
+      setTrips(updated);
+    }
+    setCheckout(null);
+  };
+
+  // In the grouped view an item can be dropped on an item in another group,
+  // or on a group header, which moves it into that category.
+  const handleGroupedDragEnd = (activeItem: GroceryItem, overId: string) => {
+    const overItem = uncheckedItems.find((item) => item.id === overId);
+    if (!overItem && !overId.startsWith(GROUP_DROP_PREFIX)) {
+      return;
+    }
+
+    const targetCategory = overItem
+      ? overItem.category?.trim() || ''
+      : overId.slice(GROUP_DROP_PREFIX.length);
+    const remaining = uncheckedItems.filter((item) => item.id !== activeItem.id);
+
+    // Only the dragged item moves; everything else keeps its manual position
+    let insertAt: number;
+    if (overItem) {
+      const overIndex = remaining.findIndex((item) => item.id === overItem.id);
+      const movingDown = uncheckedItems.indexOf(activeItem) < uncheckedItems.indexOf(overItem);
+      insertAt = movingDown ? overIndex + 1 : overIndex;
+    } else {
+      const lastInGroup = remaining.map((item) => item.category?.trim() || '').lastIndexOf(targetCategory);
+      insertAt = lastInGroup === -1 ? remaining.length : lastInGroup + 1;
+    }
+
+    if ((activeItem.category?.trim() || '') !== targetCategory) {
+      queueMutation({ type: 'update', item: { ...activeItem, category: targetCategory }, previous: activeItem });
+    }
+    const newItems = [...remaining.slice(0, insertAt), activeItem, ...remaining.slice(insertAt), ...checkedItems];
+    queueMutation({
+      type: 'reorder',
+      itemIds: newItems.map(item => item.id),
+      baseIds: [...uncheckedItems, ...checkedItems].map(item => item.id),
+    });
   };
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
+    setDraggingId(null);
 
     if (over && active.id !== over.id) {
-      const oldIndex = localItems.findIndex((item) => item.id === active.id);
-      const newIndex = localItems.findIndex((item) => item.id === over.id);
-
-      const newItems = arrayMove(localItems, oldIndex, newIndex);
-      
-      // Update local state immediately for responsive UI
-      setLocalItems(newItems);
-      
-      // Send the reorder request to Google Sheets
-      reorderItemsMutation.mutate(newItems);
+      const activeUnchecked = uncheckedItems.find((item) => item.id === active.id);
+      if (viewMode === 'grouped' && activeUnchecked) {
+        handleGroupedDragEnd(activeUnchecked, String(over.id));
+        return;
+      }
+
+      // Items can only be moved within their own section
+      const section = activeUnchecked ? uncheckedItems : checkedItems;
+      const oldIndex = section.findIndex((item) => item.id === active.id);
+      const newIndex = section.findIndex((item) => item.id === over.id);
+      if (newIndex === -1) {
+        return;
+      }
+
+      const newSection = arrayMove(section, oldIndex, newIndex);
+      const newItems = section === uncheckedItems
+        ? [...newSection, ...checkedItems]
+        : [...uncheckedItems, ...newSection];
+
+      // The queued reorder is applied to the list straight away. Only the
+      // move is sent, so rows added elsewhere in the meantime keep their places.
+      queueMutation({
+        type: 'reorder',
+        itemIds: newItems.map(item => item.id),
+        baseIds: [...uncheckedItems, ...checkedItems].map(item => item.id),
+      });
     }
   };
 
+  // Shopping mode sorts the list into the store's aisle order for display
+  // only; the order saved in the sheet is left untouched.
+  const handleShoppingStoreChange = (storeId: string | null) => {
+    setShoppingStoreId(storeId);
+    setShoppingStore(storeId);
+  };
+
+  const handleSelectList = (name: string) => {
+    namedLists?.setActiveList(name);
+    setActiveList(name);
+    setEditingItem(null);
+  };
+
+  const handleSelectProfile = (profileId: string) => {
+    setActiveProfileId(profileId);
+    const next = getActiveProfile();
+    setProfile(next);
+    setActiveList(getActiveListName(next));
+    setDismissedReminders(loadDismissedReminders(next));
+    setBudget(loadBudget(next));
+    setTrips(loadTrips(next));
+    setPriceBook(loadPriceBook(next));
+    setAutoAddDue(getAutoAddReminders(next));
+    setEditingItem(null);
+  };
+
+  const handleViewModeChange = (mode: string) => {
+    if (mode === 'manual' || mode === 'grouped') {
+      setViewMode(mode);
+      localStorage.setItem('listViewMode', mode);
+    }
+  };
+
+  const renderItem = (item: GroceryItem) => (
+    <SortableItem
+      key={item.id}
+      item={item}
+      onDelete={handleDeleteItem}
+      onToggleChecked={handleToggleChecked}
+      onEdit={setEditingItem}
+      isPending={pendingItemIds.has(item.id)}
+      dragDisabled={!!shoppingStore && !item.checked}
+    />
+  );
+
   const handleRefresh = () => {
     refetch();
     toast({
       title: "Refreshing",
-      description: "Syncing with Google Sheets...",
+      description: isSheetsBackend ? "Syncing with Google Sheets..." : "Reloading your list...",
     });
   };
 
@@ -177,8 +584,56 @@ const Index = () => {
       <div className="bg-white shadow-sm border-b">
         <div className="max-w-md mx-auto px-4 py-4 flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">My Grocery List</h1>
-            <p className="text-sm text-gray-500">{localItems.length} items</p>
+            {profiles.length > 1 && (
+              <p className="text-xs font-medium uppercase tracking-wide text-green-700">{profile.name}</p>
+            )}
+            {namedLists ? (
+              <ListSwitcher
+                backend={namedLists}
+                scope={profileScope(profile, backendType)}
+                activeList={activeList}
+                hasPendingChanges={pendingEntries.length > 0}
+                onSelectList={handleSelectList}
+              />
+            ) : (
+              <h1 className="text-2xl font-bold text-gray-900">My Grocery List</h1>
+            )}
+            <p className="text-sm text-gray-500">
+              {uncheckedItems.length} items
+              {estimate.total > 0 && (
+                <Popover>
+                  <PopoverTrigger className="ml-1 underline decoration-dotted underline-offset-2">
+                    · est. {formatPrice(estimate.total)}
+                  </PopoverTrigger>
+                  <PopoverContent align="start" className="w-64">
+                    <p className="text-sm font-medium text-gray-900 mb-2">Estimated total</p>
+                    <div className="space-y-1 text-sm">
+                      {estimate.byCategory.map(({ category, total }) => (
+                        <div key={category} className="flex justify-between gap-2">
+                          <span className="text-gray-600 truncate">{category}</span>
+                          <span className="text-gray-900">{formatPrice(total)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between gap-2 border-t pt-1 font-medium">
+                        <span>Total</span>
+                        <span>{formatPrice(estimate.total)}</span>
+                      </div>
+                    </div>
+                    {estimate.unpriced > 0 && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        {estimate.unpriced} {estimate.unpriced === 1 ? 'item has' : 'items have'} no price yet.
+                      </p>
+                    )}
+                  </PopoverContent>
+                </Popover>
+              )}
+              {pendingEntries.length > 0 && (
+                <span className="ml-2 inline-flex items-center gap-1 text-amber-600">
+                  {!isOnline && <CloudOff className="h-3 w-3" />}
+                  {pendingEntries.length} {pendingEntries.length === 1 ? 'change' : 'changes'} pending
+                </span>
+              )}
+            </p>
           </div>
           <div className="flex gap-2">
             <Button
@@ -195,6 +650,102 @@ const Index = () => {
                 <Settings className="h-4 w-4" />
               </Button>
             </Link>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="p-2" title="More actions">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={handleCategorizeItems}>
+                  <Tags className="h-4 w-4 mr-2" />
+                  Categorize uncategorized items
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleFindDuplicates}>
+                  <Merge className="h-4 w-4 mr-2" />
+                  Merge duplicates
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {storeLayouts.map((layout) => (
+                  <DropdownMenuItem key={layout.id} onClick={() => handleShoppingStoreChange(layout.id)}>
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    Shop at {layout.name}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuItem asChild>
+                  <Link to="/stores">
+                    <Store className="h-4 w-4 mr-2" />
+                    Manage stores
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link to="/pantry">
+                    <Package className="h-4 w-4 mr-2" />
+                    Pantry
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to="/history">
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to="/recipes">
+                    <ChefHat className="h-4 w-4 mr-2" />
+                    Recipes
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to="/meal-plan">
+                    <CalendarDays className="h-4 w-4 mr-2" />
+                    Meal plan
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to="/budget">
+                    <Wallet className="h-4 w-4 mr-2" />
+                    Budget
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to="/receipt">
+                    <ReceiptText className="h-4 w-4 mr-2" />
+                    Import receipt
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleAutoAddDueChange}>
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Auto-add regulars
+                  {autoAddDue && <Check className="h-4 w-4 ml-auto" />}
+                </DropdownMenuItem>
+                {profiles.length > 1 && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Profiles</DropdownMenuLabel>
+                    {profiles.map((option) => (
+                      <DropdownMenuItem
+                        key={option.id}
+                        onClick={() => option.id !== profile.id && handleSelectProfile(option.id)}
+                      >
+                        <Check className={`h-4 w-4 mr-2 ${option.id === profile.id ? '' : 'invisible'}`} />
+                        {option.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </>
+                )}
+                {getVaultStatus() === 'unlocked' && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={lockVault}>
+                      <Lock className="h-4 w-4 mr-2" />
+                      Lock now
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
@@ -205,27 +756,105 @@ const Index = () => {
           <div className="flex gap-2">
             <Input
               type="text"
-              placeholder="Add new grocery item..."
+              placeholder="Add an item, e.g. 2 kg chicken breast"
               value={newItem}
               onChange={(e) => setNewItem(e.target.value)}
               onKeyPress={handleKeyPress}
               className="flex-1"
-              disabled={addItemMutation.isPending}
             />
             <Button
               onClick={handleAddItem}
-              disabled={!newItem.trim() || addItemMutation.isPending}
+              disabled={!parsedNewItem.name}
               className="px-4"
             >
-              {addItemMutation.isPending ? (
-                <RefreshCw className="h-4 w-4 animate-spin" />
-              ) : (
-                <Plus className="h-4 w-4" />
-              )}
+              <Plus className="h-4 w-4" />
             </Button>
           </div>
+          {parsedNewItem.quantity && (
+            <p className="text-xs text-gray-500 mt-2">
+              Adding <span className="font-medium text-gray-700">{parsedNewItem.name}</span>
+              {' '}· Qty: {parsedNewItem.quantityText}
+            </p>
+          )}
+          {buyAgain.length > 0 && (
+            <div className="mt-3 pt-3 border-t">
+              <p className="text-xs font-medium text-gray-500 mb-2">Buy again</p>
+              <div className="flex flex-wrap gap-2">
+                {buyAgain.map((suggestion) => (
+                  <Button
+                    key={suggestion.name}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleBuyAgain(suggestion)}
+                    className="h-7 px-2 rounded-full text-xs"
+                    title={`Bought ${suggestion.count} ${suggestion.count === 1 ? 'time' : 'times'}`}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    {suggestion.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
         </Card>
 
+        {/* Regular items that are due again */}
+        {dueItems.length > 0 && (
+          <Card className="p-4 mb-6 bg-amber-50 border-amber-200">
+            <div className="flex items-center gap-2 mb-2">
+              <Repeat className="h-4 w-4 text-amber-700" />
+              <p className="text-sm font-medium text-amber-900">Time to restock?</p>
+            </div>
+            <div className="divide-y divide-amber-200">
+              {dueItems.map((item) => (
+                <div key={item.key} className="flex items-center gap-2 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-gray-900 truncate">{item.name}</p>
+                    <p className="text-xs text-amber-800">{item.reason}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleAddDueItem(item)}
+                    className="text-green-600 hover:text-green-700 hover:bg-green-50 p-2"
+                    title="Add to list"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDismissDueItem(item)}
+                    className="text-gray-500 hover:text-gray-700 p-2"
+                    title="Dismiss"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Budget warning */}
+        {budget !== null && month.projected > budget && (
+          <Card className="p-4 mb-6 bg-amber-50 border-amber-200">
+            <div className="flex items-start gap-3">
+              <Wallet className="h-5 w-5 text-amber-700 mt-0.5" />
+              <div className="flex-1">
+                <h3 className="font-medium text-amber-900">Heading over budget</h3>
+                <p className="text-sm text-amber-800 mt-1">
+                  On track for {formatPrice(month.projected)} this month against a budget of {formatPrice(budget)}.
+                  {' '}{formatPrice(month.spent)} spent so far.
+                </p>
+              </div>
+              <Link to="/budget" className="text-sm text-amber-900 underline">
+                Details
+              </Link>
+            </div>
+          </Card>
+        )}
+
         {/* Error State */}
         {error && (
           <Card className="p-4 mb-6 bg-red-50 border-red-200">
@@ -233,7 +862,9 @@ const Index = () => {
               <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
               <div className="flex-1">
                 <p className="text-red-800 text-sm">
-                  Unable to connect to Google Sheets. Please check your settings and ensure your Service Account is properly configured.
+                  {isSheetsBackend
+                    ? 'Unable to connect to Google Sheets. Please check your settings and ensure your Service Account is properly configured.'
+                    : 'Unable to load your list from this device. Please check your settings.'}
                 </p>
                 <Button
                   variant="outline"
@@ -273,25 +904,130 @@ const Index = () => {
           <DndContext
             sensors={sensors}
             collisionDetection={closestCenter}
+            onDragStart={(event) => setDraggingId(String(event.active.id))}
             onDragEnd={handleDragEnd}
+            onDragCancel={() => setDraggingId(null)}
           >
-            <SortableContext
-              items={localItems.map(item => item.id)}
-              strategy={verticalListSortingStrategy}
-            >
-              <div className="space-y-3">
-                {localItems.map((item) => (
-                  <SortableItem
-                    key={item.id}
-                    item={item}
-                    onDelete={handleDeleteItem}
-                    isDeleting={deleteItemMutation.isPending}
-                  />
-                ))}
+            {shoppingStore ? (
+              <Card className="p-3 mb-3 bg-green-600 text-white border-green-700 flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm">
+                  <ShoppingCart className="h-4 w-4" />
+                  <span>
+                    Shopping at <span className="font-semibold">{shoppingStore.name}</span> · aisle order
+                  </span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleShoppingStoreChange(null)}
+                  className="text-white hover:bg-green-700 hover:text-white h-7"
+                >
+                  Done
+                </Button>
+              </Card>
+            ) : (
+              <div className="flex justify-end mb-3">
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={viewMode}
+                  onValueChange={handleViewModeChange}
+                  className="bg-white rounded-md p-0.5 shadow-sm"
+                >
+                  <ToggleGroupItem value="manual" aria-label="Manual order" className="text-xs gap-1">
+                    <List className="h-3.5 w-3.5" />
+                    My order
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="grouped" aria-label="Group by category" className="text-xs gap-1">
+                    <LayoutList className="h-3.5 w-3.5" />
+                    By category
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            )}
+
+            {shoppingStore ? (
+              <SortableContext
+                items={uncheckedItems.map(item => item.id)}
+                strategy={verticalListSortingStrategy}
+              >
+                <div className="space-y-3">
+                  {sortByStoreLayout(uncheckedItems, shoppingStore).map(renderItem)}
+                </div>
+              </SortableContext>
+            ) : viewMode === 'grouped' ? (
+              <GroupedItemList
+                groups={groupByCategory(uncheckedItems)}
+                collapsedGroups={collapsedGroups}
+                onCollapsedGroupsChange={setCollapsedGroups}
+                renderItem={renderItem}
+              />
+            ) : (
+              <SortableContext
+                items={uncheckedItems.map(item => item.id)}
+                strategy={verticalListSortingStrategy}
+              >
+                <div className="space-y-3">
+                  {uncheckedItems.map(renderItem)}
+                </div>
+              </SortableContext>
+            )}
+
+            {/* Checked Items Section */}
+            {checkedItems.length > 0 && (
+              <div className="mt-8">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-sm font-medium text-gray-500">
+                    Checked ({checkedItems.length})
+                  </h2>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleClearChecked}
+                    className="text-gray-600"
+                  >
+                    <Archive className="h-4 w-4 mr-1" />
+                    Clear checked
+                  </Button>
+                </div>
+                <SortableContext
+                  items={checkedItems.map(item => item.id)}
+                  strategy={verticalListSortingStrategy}
+                >
+                  <div className="space-y-3">
+                    {checkedItems.map(renderItem)}
+                  </div>
+                </SortableContext>
               </div>
-            </SortableContext>
+            )}
           </DndContext>
         )}
+
+        <EditItemDialog
+          item={editingItem}
+          onSave={handleSaveEdit}
+          onClose={() => setEditingItem(null)}
+        />
+
+        {conflictDialog}
+
+        <DuplicateItemDialog
+          prompt={duplicatePrompts[0] ?? null}
+          onMerge={handleMergeDuplicate}
+          onKeepBoth={handleKeepBothDuplicate}
+        />
+
+        <MergeDuplicatesDialog
+          groups={duplicateGroups}
+          onMerge={handleMergeDuplicates}
+          onClose={() => setDuplicateGroups(null)}
+        />
+
+        <TripTotalDialog
+          checkout={checkout}
+          onSave={handleSaveTrip}
+          onClose={() => setCheckout(null)}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,321 @@
+import React, { useMemo, useState } from 'react';
+import { format, isSameDay } from 'date-fns';
+import { ArrowLeft, Plus, Trash2, ShoppingCart, CalendarDays } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { createItemId } from '@/services/groceryListBackend';
+import { getActiveListName, getListBackend, getListScope } from '@/services/backends';
+import { getActiveProfile } from '@/services/profiles';
+import { applyPendingMutations } from '@/services/mutationQueue';
+import { useListQueue } from '@/hooks/use-list-queue';
+import { loadRecipes } from '@/services/recipes';
+import { loadPantry } from '@/services/pantry';
+import {
+  generateShoppingList,
+  loadMealPlan,
+  saveMealPlan,
+  toDateKey,
+  weekDates,
+  type GeneratedList,
+  type PlannedMeal,
+} from '@/services/mealPlan';
+import { classifyItem } from '@/lib/categorizer';
+import { mergeAdditions } from '@/lib/duplicates';
+
+const MealPlan = () => {
+  const [profile] = useState(getActiveProfile);
+  const [recipes] = useState(() => loadRecipes(profile));
+  const [meals, setMeals] = useState<PlannedMeal[]>(() => loadMealPlan(profile));
+  const [selectedDate, setSelectedDate] = useState(() => new Date());
+  const [recipeToAdd, setRecipeToAdd] = useState('');
+  const [generated, setGenerated] = useState<GeneratedList | null>(null);
+  const { toast } = useToast();
+
+  // The generated list goes onto the list the main screen is showing
+  const [listName] = useState(() => getActiveListName(profile));
+  const backend = getListBackend(profile, listName);
+  const listScope = getListScope(profile, listName);
+
+  const { data: groceryItems } = useQuery({
+    queryKey: ['groceryItems', listScope],
+    queryFn: backend.getGroceryItems,
+  });
+
+  const { pendingEntries, enqueue, conflictDialog } = useListQueue(listScope, backend);
+
+  const recipeName = (recipeId: string): string =>
+    recipes.find((recipe) => recipe.id === recipeId)?.name ?? 'Deleted recipe';
+
+  const week = weekDates(selectedDate);
+  const weekKeys = week.map(toDateKey);
+  const weekMeals = meals.filter((meal) => weekKeys.includes(meal.date));
+  const dayMeals = meals.filter((meal) => meal.date === toDateKey(selectedDate));
+  const plannedDates = useMemo(
+    () => [...new Set(meals.map((meal) => meal.date))].map((date) => {
+      const [year, month, day] = date.split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }),
+    [meals]
+  );
+
+  const updateMeals = (updated: PlannedMeal[]) => {
+    setMeals(updated);
+    saveMealPlan(profile, updated);
+  };
+
+  const handleAddMeal = () => {
+    const recipe = recipes.find((candidate) => candidate.id === recipeToAdd);
+    if (!recipe) {
+      return;
+    }
+    updateMeals([...meals, {
+      id: crypto.randomUUID(),
+      date: toDateKey(selectedDate),
+      recipeId: recipe.id,
+      servings: recipe.servings,
+    }]);
+    setRecipeToAdd('');
+  };
+
+  const handleServingsChange = (meal: PlannedMeal, value: string) => {
+    const servings = Number(value);
+    if (Number.isInteger(servings) && servings > 0) {
+      updateMeals(meals.map((existing) => (existing.id === meal.id ? { ...existing, servings } : existing)));
+    }
+  };
+
+  const handleRemoveMeal = (meal: PlannedMeal) => {
+    updateMeals(meals.filter((existing) => existing.id !== meal.id));
+  };
+
+  const handleGenerate = () => {
+    setGenerated(generateShoppingList(weekMeals, recipes, loadPantry(profile)));
+  };
+
+  // Items already on the list get the week's quantities added to their row
+  // rather than a second row. Adding the plan again adds its quantities again.
+  const handleAddGenerated = () => {
+    if (!generated || generated.items.length === 0) {
+      return;
+    }
+    const { added, updated } = mergeAdditions(
+      applyPendingMutations(groceryItems ?? [], pendingEntries),
+      generated.items.map((item) => ({
+        id: createItemId(),
+        name: item.name,
+        quantity: item.quantity,
+        category: classifyItem(item.name) ?? '',
+      }))
+    );
+    if (added.length > 0) {
+      enqueue({ type: 'addMany', items: added });
+    }
+    updated.forEach(({ item, previous }) => enqueue({ type: 'update', item, previous }));
+    toast({
+      title: "Shopping list ready",
+      description: `${added.length} ${added.length === 1 ? 'item' : 'items'} added for the week` +
+        (updated.length > 0 ? `, ${updated.length} already on the list topped up.` : '.'),
+    });
+    setGenerated(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center">
+          <Link to="/">
+            <Button variant="ghost" size="sm" className="mr-3 p-2">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">Meal Plan</h1>
+            <p className="text-sm text-gray-500">
+              {weekMeals.length} {weekMeals.length === 1 ? 'meal' : 'meals'} planned this week
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6">
+        <Card className="mb-6 bg-white shadow-sm flex justify-center">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={(date) => date && setSelectedDate(date)}
+            weekStartsOn={1}
+            modifiers={{ planned: plannedDates }}
+            modifiersClassNames={{ planned: 'font-bold text-green-700 underline' }}
+          />
+        </Card>
+
+        <Card className="p-4 mb-6 bg-white shadow-sm">
+          <h2 className="font-semibold text-gray-900 mb-3">{format(selectedDate, 'EEEE d MMMM')}</h2>
+
+          {dayMeals.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-3">Nothing planned yet.</p>
+          ) : (
+            <div className="divide-y mb-3">
+              {dayMeals.map((meal) => (
+                <div key={meal.id} className="flex items-center gap-2 py-2">
+                  <span className="flex-1 min-w-0 truncate text-gray-900">{recipeName(meal.recipeId)}</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    defaultValue={meal.servings}
+                    onChange={(e) => handleServingsChange(meal, e.target.value)}
+                    aria-label="Servings"
+                    className="w-16 h-8"
+                  />
+                  <span className="text-xs text-gray-500">servings</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveMeal(meal)}
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2"
+                    title="Remove meal"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {recipes.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              <Link to="/recipes" className="text-green-700 underline">Import a recipe</Link> to start planning.
+            </p>
+          ) : (
+            <div className="flex gap-2">
+              <Select value={recipeToAdd} onValueChange={setRecipeToAdd}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Choose a recipe" />
+                </SelectTrigger>
+                <SelectContent>
+                  {recipes.map((recipe) => (
+                    <SelectItem key={recipe.id} value={recipe.id}>
+                      {recipe.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAddMeal} disabled={!recipeToAdd} className="px-4">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-4 bg-white shadow-sm">
+          <h2 className="font-semibold text-gray-900 mb-3 flex items-center">
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Week of {format(week[0], 'd MMMM')}
+          </h2>
+          <div className="space-y-1 mb-4">
+            {week.map((date) => {
+              const planned = weekMeals.filter((meal) => meal.date === toDateKey(date));
+              return (
+                <button
+                  key={toDateKey(date)}
+                  onClick={() => setSelectedDate(date)}
+                  className={`w-full flex gap-3 text-left text-sm rounded px-2 py-1 ${
+                    isSameDay(date, selectedDate) ? 'bg-green-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="w-10 text-gray-500">{format(date, 'EEE')}</span>
+                  <span className="flex-1 min-w-0 truncate text-gray-900">
+                    {planned.map((meal) => recipeName(meal.recipeId)).join(', ') || '—'}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+          <Button
+            onClick={handleGenerate}
+            disabled={weekMeals.length === 0}
+            className="w-full bg-green-600 hover:bg-green-700 text-white"
+          >
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            Generate Shopping List
+          </Button>
+        </Card>
+      </div>
+
+      <Dialog open={!!generated} onOpenChange={(open) => !open && setGenerated(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Shopping list for the week</DialogTitle>
+            <DialogDescription>
+              Ingredients from {weekMeals.length} {weekMeals.length === 1 ? 'meal' : 'meals'}, added up and
+              minus what is in your pantry.
+            </DialogDescription>
+          </DialogHeader>
+
+          {generated && (
+            <div className="max-h-80 overflow-y-auto space-y-3">
+              {generated.items.length === 0 ? (
+                <p className="text-sm text-gray-500">Your pantry already has everything.</p>
+              ) : (
+                <div className="divide-y">
+                  {generated.items.map((item) => (
+                    <div key={item.key} className="py-2">
+                      <div className="flex gap-2">
+                        <span className="flex-1 text-gray-900">{item.name}</span>
+                        {item.quantity && <span className="text-sm text-gray-500">{item.quantity}</span>}
+                      </div>
+                      <p className="text-xs text-gray-400">{item.recipes.join(', ')}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {generated.fromPantry.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  Already in your pantry: {generated.fromPantry.join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setGenerated(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleAddGenerated}
+              disabled={!generated || generated.items.length === 0}
+              className="bg-green-600 hover:bg-green-700 text-white"
+            >
+              Add {generated?.items.length ?? 0} to List
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {conflictDialog}
+    </div>
+  );
+};
+
+export default MealPlan;
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { completeSignIn } from '@/services/googleOAuth';
+
+// Google redirects here after the consent screen with an authorization code
+const OAuthCallback = () => {
+  const [error, setError] = useState('');
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  // An authorization code can only be exchanged once
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) {
+      return;
+    }
+    started.current = true;
+
+    completeSignIn(location.search)
+      .then((profile) => {
+        toast({
+          title: "Signed in",
+          description: profile.oauthEmail
+            ? `Connected ${profile.name} as ${profile.oauthEmail}.`
+            : `Connected ${profile.name} to your Google account.`,
+        });
+        navigate('/settings', { replace: true });
+      })
+      .catch((signInError) => {
+        console.error('Error completing Google sign-in:', signInError);
+        setError(signInError.message || 'Google sign-in failed.');
+      });
+  }, [location.search, navigate, toast]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100 flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm p-6 bg-white shadow-sm text-center">
+        {error ? (
+          <>
+            <AlertCircle className="h-10 w-10 text-red-600 mx-auto mb-3" />
+            <p className="text-sm text-red-800 mb-4">{error}</p>
+            <Link to="/settings">
+              <Button variant="outline">Back to Settings</Button>
+            </Link>
+          </>
+        ) : (
+          <>
+            <RefreshCw className="h-8 w-8 animate-spin text-green-600 mx-auto mb-3" />
+            <p className="text-sm text-gray-600">Finishing Google sign-in...</p>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default OAuthCallback;
@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Plus, Minus, Pencil, Trash2, ShoppingCart, Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { createItemId } from '@/services/groceryListBackend';
+import { getActiveListName, getListBackend, getListScope } from '@/services/backends';
+import { getActiveProfile } from '@/services/profiles';
+import { applyPendingMutations } from '@/services/mutationQueue';
+import { useListQueue } from '@/hooks/use-list-queue';
+import { PantryItemDialog } from '@/components/PantryItemDialog';
+import { parseItemInput } from '@/lib/parseItemInput';
+import { classifyItem } from '@/lib/categorizer';
+import { findDuplicate, mergeAdditions } from '@/lib/duplicates';
+import { normalizeQuantityText } from '@/lib/quantity';
+import {
+  daysUntilExpiry,
+  findPantryItem,
+  isRunningLow,
+  loadPantry,
+  quantityAfterUsingOne,
+  savePantry,
+  sortPantry,
+  stockPantry,
+  type PantryItem,
+} from '@/services/pantry';
+
+// Expiring within this many days is highlighted
+const EXPIRY_WARNING_DAYS = 3;
+
+const expiryLabel = (days: number): string => {
+  if (days < 0) {
+    return 'Expired';
+  }
+  if (days === 0) {
+    return 'Expires today';
+  }
+  return days === 1 ? 'Expires tomorrow' : `Expires in ${days} days`;
+};
+
+const Pantry = () => {
+  const [profile] = useState(getActiveProfile);
+  const [pantry, setPantry] = useState<PantryItem[]>(() => loadPantry(profile));
+  const [newItem, setNewItem] = useState('');
+  const [editingItem, setEditingItem] = useState<PantryItem | null>(null);
+  const { toast } = useToast();
+
+  // Restocked items go onto the list the main screen is showing
+  const [listName] = useState(() => getActiveListName(profile));
+  const backend = getListBackend(profile, listName);
+  const listScope = getListScope(profile, listName);
+
+  const { data: groceryItems } = useQuery({
+    queryKey: ['groceryItems', listScope],
+    queryFn: backend.getGroceryItems,
+  });
+
+  const { pendingEntries, enqueue, conflictDialog } = useListQueue(listScope, backend);
+
+  const listItems = useMemo(
+    () => applyPendingMutations(groceryItems ?? [], pendingEntries),
+    [groceryItems, pendingEntries]
+  );
+
+  const updatePantry = (items: PantryItem[]) => {
+    setPantry(items);
+    savePantry(profile, items);
+  };
+
+  // Goes through the same duplicate check as every other add, so an item
+  // already on the list under a slightly different name is not listed twice
+  const addToList = (item: PantryItem) => {
+    const { added } = mergeAdditions(listItems, [
+      { id: createItemId(), name: item.name, quantity: '', category: item.category || '' },
+    ]);
+    if (added.length === 0) {
+      return;
+    }
+    enqueue({ type: 'add', item: added[0] });
+    toast({
+      title: "Added to your list",
+      description: `${item.name} is running low.`,
+    });
+  };
+
+  // Saves a changed item, putting it back on the list when it has just
+  // dropped to its running-low threshold
+  const handleUpdateItem = (updated: PantryItem) => {
+    const previous = pantry.find((item) => item.id === updated.id);
+    updatePantry(pantry.map((item) => (item.id === updated.id ? updated : item)));
+    if (isRunningLow(updated) && (!previous || !isRunningLow(previous))) {
+      addToList(updated);
+    }
+  };
+
+  const handleAddItem = () => {
+    const parsed = parseItemInput(newItem);
+    if (!parsed.name) {
+      return;
+    }
+    if (findPantryItem(pantry, parsed.name)) {
+      updatePantry(stockPantry(pantry, [{ id: '', name: parsed.name, quantity: parsed.quantityText }]));
+    } else {
+      updatePantry([...pantry, {
+        id: crypto.randomUUID(),
+        name: parsed.name,
+        quantity: normalizeQuantityText(parsed.quantityText),
+        category: classifyItem(parsed.name) ?? '',
+        updatedAt: new Date().toISOString(),
+      }]);
+    }
+    setNewItem('');
+  };
+
+  const handleUseOne = (item: PantryItem) => {
+    const quantity = quantityAfterUsingOne(item);
+    if (quantity !== null) {
+      handleUpdateItem({ ...item, quantity, updatedAt: new Date().toISOString() });
+    }
+  };
+
+  const handleSaveEdit = (item: PantryItem) => {
+    setEditingItem(null);
+    handleUpdateItem(item);
+  };
+
+  const handleDeleteItem = (item: PantryItem) => {
+    updatePantry(pantry.filter((existing) => existing.id !== item.id));
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleAddItem();
+    }
+  };
+
+  const sortedPantry = sortPantry(pantry);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center">
+          <Link to="/">
+            <Button variant="ghost" size="sm" className="mr-3 p-2">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">Pantry</h1>
+            <p className="text-sm text-gray-500">{pantry.length} items at home</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6">
+        <Card className="p-4 mb-6 bg-white shadow-sm">
+          <div className="flex gap-2">
+            <Input
+              type="text"
+              placeholder="Add something you have, e.g. 6 eggs"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              onKeyPress={handleKeyPress}
+              className="flex-1"
+            />
+            <Button onClick={handleAddItem} disabled={!parseItemInput(newItem).name} className="px-4">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </Card>
+
+        {pantry.length === 0 ? (
+          <Card className="p-8 text-center bg-white shadow-sm">
+            <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Your pantry is empty</h3>
+            <p className="text-gray-500">
+              Checked-off items move here when you clear them from your list.
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {sortedPantry.map((item) => {
+              const days = daysUntilExpiry(item);
+              const runningLow = isRunningLow(item);
+              const canUseOne = quantityAfterUsingOne(item) !== null;
+              return (
+                <Card key={item.id} className="p-4 bg-white shadow-sm">
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-900 truncate">{item.name}</span>
+                        {item.quantity && (
+                          <span className="text-sm text-gray-500 shrink-0">{item.quantity}</span>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {days !== null && (
+                          <Badge
+                            variant="outline"
+                            className={days <= EXPIRY_WARNING_DAYS ? 'border-red-200 text-red-700' : 'text-gray-600'}
+                          >
+                            {expiryLabel(days)}
+                          </Badge>
+                        )}
+                        {runningLow && (
+                          <Badge variant="outline" className="border-amber-200 text-amber-700">
+                            Running low
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    {runningLow && !findDuplicate(listItems, item.name) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => addToList(item)}
+                        className="text-green-600 hover:text-green-700 hover:bg-green-50 p-2"
+                        title="Add to grocery list"
+                      >
+                        <ShoppingCart className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canUseOne && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleUseOne(item)}
+                        className="text-gray-500 hover:text-gray-700 p-2"
+                        title="Use one"
+                      >
+                        <Minus className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingItem(item)}
+                      className="text-gray-500 hover:text-gray-700 p-2"
+                      title="Edit item"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteItem(item)}
+                      className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2"
+                      title="Remove from pantry"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <PantryItemDialog
+        item={editingItem}
+        onSave={handleSaveEdit}
+        onClose={() => setEditingItem(null)}
+      />
+
+      {conflictDialog}
+    </div>
+  );
+};
+
+export default Pantry;
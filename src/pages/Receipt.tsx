@@ -0,0 +1,337 @@
+import React, { useRef, useState } from 'react';
+import { ArrowLeft, CheckCheck, FileText, ReceiptText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getActiveListName, getListBackend, getListScope } from '@/services/backends';
+import { getActiveProfile } from '@/services/profiles';
+import { applyPendingMutations } from '@/services/mutationQueue';
+import { useListQueue } from '@/hooks/use-list-queue';
+import { checkOutItems } from '@/services/checkout';
+import { createTrip, loadTrips, saveTrips } from '@/services/budget';
+import { getShoppingStoreId, loadStoreLayouts } from '@/lib/storeLayouts';
+import { formatPrice, parsePrice, priceUnits } from '@/lib/prices';
+import {
+  matchReceiptLines,
+  parseReceipt,
+  receiptUnitPrice,
+  type ParsedReceipt,
+  type ReceiptLine,
+} from '@/lib/receiptParser';
+
+const NOT_ON_LIST = 'none';
+const NO_STORE = 'none';
+
+const Receipt = () => {
+  const [profile] = useState(getActiveProfile);
+  const [stores] = useState(loadStoreLayouts);
+  const [storeId, setStoreId] = useState(() => getShoppingStoreId() ?? NO_STORE);
+  const [pasted, setPasted] = useState('');
+  const [receipt, setReceipt] = useState<ParsedReceipt | null>(null);
+  // Receipt line ID -> list item ID
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  // Lines the matcher paired up, shown apart from the ones left to the user
+  const [matchedLineIds, setMatchedLineIds] = useState<Set<string>>(new Set());
+  const [totalPaid, setTotalPaid] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  // Purchases are reconciled against the list the main screen is showing
+  const [listName] = useState(() => getActiveListName(profile));
+  const backend = getListBackend(profile, listName);
+  const listScope = getListScope(profile, listName);
+
+  const { data: groceryItems } = useQuery({
+    queryKey: ['groceryItems', listScope],
+    queryFn: backend.getGroceryItems,
+  });
+
+  const { pendingEntries, enqueue, conflictDialog } = useListQueue(listScope, backend);
+
+  const items = applyPendingMutations(groceryItems ?? [], pendingEntries);
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const matchedLines = receipt?.lines.filter((line) => matchedLineIds.has(line.id)) ?? [];
+  const unmatchedLines = receipt?.lines.filter((line) => !matchedLineIds.has(line.id)) ?? [];
+  const assignedCount = receipt?.lines.filter((line) => itemsById.has(assignments[line.id])).length ?? 0;
+  const linesTotal = receipt?.lines.reduce((sum, line) => sum + line.amount, 0) ?? 0;
+
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      setPasted(await file.text());
+    } catch (error) {
+      console.error('Error reading receipt file:', error);
+      toast({
+        title: "Couldn't open file",
+        description: "Choose a plain text file, or paste the receipt instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRead = () => {
+    const parsed = parseReceipt(pasted);
+    if (parsed.lines.length === 0) {
+      toast({
+        title: "No items found",
+        description: "Paste the receipt with one item and its price per line.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const matches = matchReceiptLines(parsed.lines, items);
+    setReceipt(parsed);
+    setAssignments(Object.fromEntries(matches.map((match) => [match.lineId, match.itemId])));
+    setMatchedLineIds(new Set(matches.map((match) => match.lineId)));
+    setTotalPaid((parsed.total ?? parsed.lines.reduce((sum, line) => sum + line.amount, 0)).toFixed(2));
+  };
+
+  const handleAssign = (lineId: string, itemId: string) => {
+    setAssignments((current) => {
+      const updated = { ...current };
+      if (itemId === NOT_ON_LIST) {
+        delete updated[lineId];
+      } else {
+        updated[lineId] = itemId;
+      }
+      return updated;
+    });
+  };
+
+  // Updates the bought items with what they cost, then clears them off the
+  // list the same way "Clear checked" does, so history, the price book, the
+  // pantry and the budget all see the trip
+  const handleConfirm = () => {
+    if (!receipt) {
+      return;
+    }
+    const total = parsePrice(totalPaid);
+    if (total === null || total <= 0) {
+      toast({
+        title: "Invalid total",
+        description: "Enter the total from the receipt, e.g. 54.20",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const bought = receipt.lines.flatMap((line) => {
+      const item = itemsById.get(assignments[line.id]);
+      return item ? [{ item, line }] : [];
+    });
+    const purchased = bought.map(({ item, line }) => ({
+      ...item,
+      checked: true,
+      price: receiptUnitPrice(line, priceUnits(item)),
+    }));
+    bought.forEach(({ item }, index) => {
+      enqueue({ type: 'update', item: purchased[index], previous: item });
+    });
+    if (purchased.length > 0) {
+      enqueue({ type: 'archive', items: purchased });
+    }
+
+    const store = stores.find((layout) => layout.id === storeId) ?? null;
+    const { costs, history } = checkOutItems(profile, listName, purchased, store?.id ?? null);
+    history.then(() => queryClient.invalidateQueries({ queryKey: ['purchaseHistory', profile.id] }));
+    saveTrips(profile, [...loadTrips(profile), createTrip(total, costs, store)]);
+
+    toast({
+      title: "Receipt reconciled",
+      description: `${purchased.length} ${purchased.length === 1 ? 'item' : 'items'} marked as bought and a trip of ${formatPrice(total)} recorded.`,
+    });
+    navigate('/');
+  };
+
+  const renderLine = (line: ReceiptLine) => {
+    const assigned = assignments[line.id];
+    // An item can only be paid for once
+    const taken = new Set(
+      Object.entries(assignments).filter(([lineId]) => lineId !== line.id).map(([, itemId]) => itemId)
+    );
+    return (
+      <div key={line.id} className="px-4 py-3 space-y-2">
+        <div className="flex items-baseline gap-3">
+          <p className="flex-1 min-w-0 text-gray-900 truncate">{line.name}</p>
+          <p className="text-gray-900 tabular-nums">{formatPrice(line.amount)}</p>
+        </div>
+        {line.count !== null && line.unitPrice !== null && (
+          <p className="text-xs text-gray-500">
+            {line.count} @ {formatPrice(line.unitPrice)}
+          </p>
+        )}
+        <Select
+          value={itemsById.has(assigned) ? assigned : NOT_ON_LIST}
+          onValueChange={(itemId) => handleAssign(line.id, itemId)}
+        >
+          <SelectTrigger aria-label={`List item for ${line.name}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NOT_ON_LIST}>Not on list</SelectItem>
+            {items
+              .filter((item) => !taken.has(item.id))
+              .map((item) => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.name}
+                  {item.quantity && ` · ${item.quantity}`}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center">
+          {receipt ? (
+            <Button variant="ghost" size="sm" className="mr-3 p-2" onClick={() => setReceipt(null)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Link to="/">
+              <Button variant="ghost" size="sm" className="mr-3 p-2">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+          )}
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">{receipt ? 'Review Receipt' : 'Import Receipt'}</h1>
+            <p className="text-sm text-gray-500">
+              {receipt
+                ? `${assignedCount} of ${receipt.lines.length} lines matched to ${listName}`
+                : `Tick off ${listName} from what you paid for`}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6 space-y-6">
+        {receipt ? (
+          <>
+            {matchedLines.length > 0 && (
+              <div>
+                <h2 className="text-sm font-medium text-gray-700 mb-2">Matched ({matchedLines.length})</h2>
+                <Card className="bg-white shadow-sm divide-y">{matchedLines.map(renderLine)}</Card>
+              </div>
+            )}
+
+            {unmatchedLines.length > 0 && (
+              <div>
+                <h2 className="text-sm font-medium text-gray-700 mb-1">Unmatched ({unmatchedLines.length})</h2>
+                <p className="text-xs text-gray-500 mb-2">
+                  Pick the list item each line paid for. Lines left as "Not on list" still count towards the total.
+                </p>
+                <Card className="bg-white shadow-sm divide-y">{unmatchedLines.map(renderLine)}</Card>
+              </div>
+            )}
+
+            <Card className="p-4 bg-white shadow-sm space-y-4">
+              <div>
+                <Label htmlFor="receiptStore" className="text-sm font-medium">
+                  Store
+                </Label>
+                <Select value={storeId} onValueChange={setStoreId}>
+                  <SelectTrigger id="receiptStore" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_STORE}>No store</SelectItem>
+                    {stores.map((store) => (
+                      <SelectItem key={store.id} value={store.id}>
+                        {store.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="receiptTotal" className="text-sm font-medium">
+                  Total Paid
+                </Label>
+                <Input
+                  id="receiptTotal"
+                  value={totalPaid}
+                  onChange={(e) => setTotalPaid(e.target.value)}
+                  inputMode="decimal"
+                  className="mt-1"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {receipt.total !== null
+                    ? `From the receipt's total line. The items add up to ${formatPrice(linesTotal)}.`
+                    : 'No total line found, so this is the items added up.'}
+                </p>
+              </div>
+            </Card>
+
+            <Button onClick={handleConfirm} className="w-full bg-green-600 hover:bg-green-700 text-white">
+              <CheckCheck className="h-4 w-4 mr-2" />
+              {assignedCount > 0 ? `Mark ${assignedCount} Bought and Save Trip` : 'Save Trip'}
+            </Button>
+          </>
+        ) : (
+          <Card className="p-4 bg-white shadow-sm">
+            <Label htmlFor="receiptText" className="text-sm font-medium">
+              Receipt
+            </Label>
+            <Textarea
+              id="receiptText"
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              placeholder="Paste the receipt text, e.g. from an emailed or online receipt"
+              className="mt-1 min-h-48 font-mono text-xs"
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,text/plain"
+              onChange={handleOpenFile}
+              className="hidden"
+            />
+            <div className="flex gap-2 mt-3">
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="flex-1">
+                <FileText className="h-4 w-4 mr-2" />
+                Open File
+              </Button>
+              <Button
+                onClick={handleRead}
+                disabled={!pasted.trim()}
+                className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+              >
+                <ReceiptText className="h-4 w-4 mr-2" />
+                Read Receipt
+              </Button>
+            </div>
+          </Card>
+        )}
+      </div>
+
+      {conflictDialog}
+    </div>
+  );
+};
+
+export default Receipt;
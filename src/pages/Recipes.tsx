@@ -0,0 +1,385 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, BookOpen, ChefHat, ShoppingCart, Trash2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { createItemId } from '@/services/groceryListBackend';
+import { getActiveListName, getListBackend, getListScope } from '@/services/backends';
+import { getActiveProfile } from '@/services/profiles';
+import { applyPendingMutations } from '@/services/mutationQueue';
+import { useListQueue } from '@/hooks/use-list-queue';
+import {
+  DEFAULT_SERVINGS,
+  loadRecipes,
+  saveRecipes,
+  scaleIngredientQuantity,
+  type Recipe,
+  type RecipeIngredient,
+} from '@/services/recipes';
+import { parseIngredient, parseRecipe } from '@/lib/recipeParser';
+import { classifyItem } from '@/lib/categorizer';
+import { findDuplicate, mergeAdditions } from '@/lib/duplicates';
+import { normalizeQuantityText } from '@/lib/quantity';
+
+interface DraftIngredient extends RecipeIngredient {
+  include: boolean;
+}
+
+// A recipe being reviewed, either freshly parsed or opened from the saved list
+interface RecipeDraft {
+  id: string | null;
+  name: string;
+  servings: string;
+  ingredients: DraftIngredient[];
+}
+
+const parseServings = (text: string): number | null => {
+  const value = Number(text);
+  return Number.isInteger(value) && value > 0 ? value : null;
+};
+
+const Recipes = () => {
+  const [profile] = useState(getActiveProfile);
+  const [recipes, setRecipes] = useState<Recipe[]>(() => loadRecipes(profile));
+  const [pasted, setPasted] = useState('');
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const [targetServings, setTargetServings] = useState('');
+  const { toast } = useToast();
+
+  // Ingredients go onto the list the main screen is showing
+  const [listName] = useState(() => getActiveListName(profile));
+  const backend = getListBackend(profile, listName);
+  const listScope = getListScope(profile, listName);
+
+  const { data: groceryItems } = useQuery({
+    queryKey: ['groceryItems', listScope],
+    queryFn: backend.getGroceryItems,
+  });
+
+  const { pendingEntries, enqueue, conflictDialog } = useListQueue(listScope, backend);
+
+  const listItems = useMemo(
+    () => applyPendingMutations(groceryItems ?? [], pendingEntries),
+    [groceryItems, pendingEntries]
+  );
+
+  const updateRecipes = (updated: Recipe[]) => {
+    setRecipes(updated);
+    saveRecipes(profile, updated);
+  };
+
+  // Things already on the list start unticked
+  const openDraft = (recipe: Omit<Recipe, 'createdAt'> & { id: string | null }) => {
+    setDraft({
+      id: recipe.id,
+      name: recipe.name,
+      servings: String(recipe.servings),
+      ingredients: recipe.ingredients.map((ingredient) => ({
+        ...ingredient,
+        include: !findDuplicate(listItems, ingredient.name),
+      })),
+    });
+    setTargetServings(String(recipe.servings));
+  };
+
+  const handleParse = () => {
+    const parsed = parseRecipe(pasted);
+    if (parsed.ingredients.length === 0) {
+      toast({
+        title: "No ingredients found",
+        description: "Paste the recipe's ingredient list, or the page source of a recipe website.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    openDraft({
+      id: null,
+      name: parsed.name || 'Untitled recipe',
+      servings: parsed.servings ?? DEFAULT_SERVINGS,
+      ingredients: parsed.ingredients.map((line) => ({
+        id: crypto.randomUUID(),
+        ...parseIngredient(line),
+        original: line,
+      })),
+    });
+    setPasted('');
+  };
+
+  const updateIngredient = (id: string, changes: Partial<DraftIngredient>) => {
+    setDraft((current) => current && {
+      ...current,
+      ingredients: current.ingredients.map((ingredient) => (
+        ingredient.id === id ? { ...ingredient, ...changes } : ingredient
+      )),
+    });
+  };
+
+  const draftServings = draft ? parseServings(draft.servings) : null;
+  const cookingFor = parseServings(targetServings);
+  const scaled = (ingredient: RecipeIngredient): string =>
+    draftServings && cookingFor
+      ? scaleIngredientQuantity(normalizeQuantityText(ingredient.quantity), draftServings, cookingFor)
+      : normalizeQuantityText(ingredient.quantity);
+  const selected = draft?.ingredients.filter((ingredient) => ingredient.include && ingredient.name.trim()) ?? [];
+
+  const handleSaveRecipe = () => {
+    if (!draft || !draftServings) {
+      return;
+    }
+    const recipe: Recipe = {
+      id: draft.id ?? crypto.randomUUID(),
+      name: draft.name.trim() || 'Untitled recipe',
+      servings: draftServings,
+      ingredients: draft.ingredients
+        .filter((ingredient) => ingredient.name.trim())
+        .map(({ id, name, quantity, original }) => ({
+          id,
+          name: name.trim(),
+          quantity: normalizeQuantityText(quantity),
+          original,
+        })),
+      createdAt: recipes.find((existing) => existing.id === draft.id)?.createdAt ?? new Date().toISOString(),
+    };
+    updateRecipes(
+      draft.id ? recipes.map((existing) => (existing.id === draft.id ? recipe : existing)) : [...recipes, recipe]
+    );
+    setDraft({ ...draft, id: recipe.id });
+    toast({
+      title: "Recipe saved",
+      description: `${recipe.name} is in your recipes.`,
+    });
+  };
+
+  // One batched write for the whole recipe rather than an add per
+  // ingredient. Ingredients already on the list top up the row instead.
+  const handleAddToList = () => {
+    if (!draft || selected.length === 0) {
+      return;
+    }
+    const { added, updated } = mergeAdditions(listItems, selected.map((ingredient) => ({
+      id: createItemId(),
+      name: ingredient.name.trim(),
+      quantity: scaled(ingredient),
+      category: classifyItem(ingredient.name) ?? '',
+    })));
+    if (added.length > 0) {
+      enqueue({ type: 'addMany', items: added });
+    }
+    updated.forEach(({ item, previous }) => enqueue({ type: 'update', item, previous }));
+    toast({
+      title: "Added to your list",
+      description: `${selected.length} ${selected.length === 1 ? 'ingredient' : 'ingredients'} from ${draft.name || 'the recipe'}.`,
+    });
+    setDraft(null);
+  };
+
+  const handleDeleteRecipe = (recipe: Recipe) => {
+    updateRecipes(recipes.filter((existing) => existing.id !== recipe.id));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center">
+          {draft ? (
+            <Button variant="ghost" size="sm" className="mr-3 p-2" onClick={() => setDraft(null)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Link to="/">
+              <Button variant="ghost" size="sm" className="mr-3 p-2">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+          )}
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">{draft ? 'Review Recipe' : 'Recipes'}</h1>
+            <p className="text-sm text-gray-500">
+              {draft
+                ? `${selected.length} of ${draft.ingredients.length} ingredients selected`
+                : `${recipes.length} saved`}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6">
+        {draft ? (
+          <>
+            <Card className="p-4 mb-6 bg-white shadow-sm space-y-4">
+              <div>
+                <Label htmlFor="recipeName" className="text-sm font-medium">
+                  Recipe
+                </Label>
+                <Input
+                  id="recipeName"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="recipeServings" className="text-sm font-medium">
+                    Recipe Serves
+                  </Label>
+                  <Input
+                    id="recipeServings"
+                    type="number"
+                    min={1}
+                    value={draft.servings}
+                    onChange={(e) => setDraft({ ...draft, servings: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label htmlFor="cookingFor" className="text-sm font-medium">
+                    Cooking For
+                  </Label>
+                  <Input
+                    id="cookingFor"
+                    type="number"
+                    min={1}
+                    value={targetServings}
+                    onChange={(e) => setTargetServings(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+            </Card>
+
+            <Card className="bg-white shadow-sm divide-y mb-6">
+              {draft.ingredients.map((ingredient) => {
+                const quantity = scaled(ingredient);
+                const onList = !!findDuplicate(listItems, ingredient.name);
+                return (
+                  <div key={ingredient.id} className="flex items-start gap-3 px-4 py-3">
+                    <Checkbox
+                      checked={ingredient.include}
+                      onCheckedChange={(checked) => updateIngredient(ingredient.id, { include: checked === true })}
+                      className="mt-2.5"
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex gap-2">
+                        <Input
+                          value={ingredient.name}
+                          onChange={(e) => updateIngredient(ingredient.id, { name: e.target.value })}
+                          aria-label="Ingredient"
+                          className="flex-1"
+                        />
+                        <Input
+                          value={ingredient.quantity}
+                          onChange={(e) => updateIngredient(ingredient.id, { quantity: e.target.value })}
+                          aria-label="Quantity"
+                          placeholder="Qty"
+                          className="w-24"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <p className="text-xs text-gray-500 truncate flex-1">{ingredient.original}</p>
+                        {onList && (
+                          <Badge variant="outline" className="text-gray-500 shrink-0">
+                            On list
+                          </Badge>
+                        )}
+                      </div>
+                      {quantity && quantity !== normalizeQuantityText(ingredient.quantity) && (
+                        <p className="text-xs text-green-700">Adds {quantity}</p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </Card>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleSaveRecipe} disabled={!draftServings} className="flex-1">
+                <Save className="h-4 w-4 mr-2" />
+                Save Recipe
+              </Button>
+              <Button
+                onClick={handleAddToList}
+                disabled={selected.length === 0 || !draftServings || !cookingFor}
+                className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+              >
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Add {selected.length} to List
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <Card className="p-4 mb-6 bg-white shadow-sm">
+              <Label htmlFor="recipeText" className="text-sm font-medium">
+                Import a Recipe
+              </Label>
+              <Textarea
+                id="recipeText"
+                value={pasted}
+                onChange={(e) => setPasted(e.target.value)}
+                placeholder="Paste the recipe text, or the page source of a recipe website"
+                className="mt-1 min-h-32 font-mono text-xs"
+              />
+              <Button
+                onClick={handleParse}
+                disabled={!pasted.trim()}
+                className="w-full mt-3 bg-green-600 hover:bg-green-700 text-white"
+              >
+                <ChefHat className="h-4 w-4 mr-2" />
+                Read Ingredients
+              </Button>
+            </Card>
+
+            {recipes.length === 0 ? (
+              <Card className="p-8 text-center bg-white shadow-sm">
+                <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No saved recipes</h3>
+                <p className="text-gray-500">Recipes you save after importing show up here.</p>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {recipes.map((recipe) => (
+                  <Card key={recipe.id} className="p-4 bg-white shadow-sm">
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => openDraft(recipe)}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className="text-gray-900 truncate">{recipe.name}</p>
+                        <p className="text-sm text-gray-500">
+                          Serves {recipe.servings} · {recipe.ingredients.length} ingredients
+                        </p>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteRecipe(recipe)}
+                        className="text-red-500 hover:text-red-700 hover:bg-red-50 p-2"
+                        title="Delete recipe"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {conflictDialog}
+    </div>
+  );
+};
+
+export default Recipes;
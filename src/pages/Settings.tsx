@@ -1,35 +1,199 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Save, Eye, EyeOff, Upload } from 'lucide-react'; // Removed CheckCircle
+import { ArrowLeft, Save, Eye, EyeOff, Upload, Plus, Trash2, LogIn, LogOut } from 'lucide-react'; // Removed CheckCircle
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
 // import { Separator } from '@/components/ui/separator'; // No longer needed
 import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { Link, useNavigate } from 'react-router-dom';
+import type { BackendType } from '@/services/groceryListBackend';
+import { BACKEND_OPTIONS } from '@/services/backends';
+import {
+  createProfile,
+  getActiveProfile,
+  loadProfiles,
+  saveProfiles,
+  getProfile,
+  setActiveProfileId,
+  updateProfile,
+  type AuthMode,
+  type ConnectionProfile,
+} from '@/services/profiles';
+import { getRedirectUri, signOut, startSignIn } from '@/services/googleOAuth';
+import {
+  encryptSecret,
+  getVaultStatus,
+  MIN_PASSPHRASE_LENGTH,
+  readSecret,
+  saveProfileSecret,
+  setUpVault,
+} from '@/services/credentialVault';
 
 const Settings = () => {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfile] = useState(() => getActiveProfile().id);
+  const [selectedProfileId, setSelectedProfileId] = useState(activeProfileId);
+  const [profileName, setProfileName] = useState('');
+  const [newProfileName, setNewProfileName] = useState('');
+  const [backendType, setBackendTypeState] = useState<BackendType>('googleSheets');
   const [sheetId, setSheetId] = useState('');
   const [sheetName, setSheetName] = useState('Sheet1');
   const [serviceAccountKey, setServiceAccountKey] = useState('');
   const [showServiceAccount, setShowServiceAccount] = useState(false);
+  const [authMode, setAuthMode] = useState<AuthMode>('serviceAccount');
+  const [oauthClientId, setOauthClientId] = useState('');
+  const [oauthClientSecret, setOauthClientSecret] = useState('');
+  const [oauthEmail, setOauthEmail] = useState('');
+  const [oauthSignedIn, setOauthSignedIn] = useState(false);
+  // Only asked for when no passphrase has been set up on this device yet
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirmation, setPassphraseConfirmation] = useState('');
+  const needsPassphrase = getVaultStatus() === 'disabled';
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
 
   useEffect(() => {
-    // Load saved settings from localStorage
-    const savedSheetId = localStorage.getItem('googleSheetsId') || '';
-    const savedSheetName = localStorage.getItem('googleSheetsName') || 'Sheet1';
-    const savedServiceAccountKey = localStorage.getItem('serviceAccountKey') || '';
-    
-    setSheetId(savedSheetId);
-    setSheetName(savedSheetName);
-    setServiceAccountKey(savedServiceAccountKey);
-  }, []);
+    // Load the selected profile's saved settings into the form
+    const profile = loadProfiles().find((saved) => saved.id === selectedProfileId);
+    if (!profile) {
+      return;
+    }
+
+    setProfileName(profile.name);
+    setBackendTypeState(profile.backendType);
+    setSheetId(profile.sheetId);
+    setSheetName(profile.sheetName || 'Sheet1');
+    setServiceAccountKey('');
+    setShowServiceAccount(false);
+    setAuthMode(profile.authMode || 'serviceAccount');
+    setOauthClientId(profile.oauthClientId || '');
+    setOauthClientSecret('');
+    setOauthEmail(profile.oauthEmail || '');
+    setOauthSignedIn(!!profile.oauthRefreshToken);
+
+    // The stored key is encrypted; show the decrypted JSON in the form
+    let cancelled = false;
+    readSecret(profile.serviceAccountKey)
+      .then((key) => !cancelled && setServiceAccountKey(key))
+      .catch((error) => console.error('Error decrypting service account key:', error));
+    readSecret(profile.oauthClientSecret || '')
+      .then((secret) => !cancelled && setOauthClientSecret(secret))
+      .catch((error) => console.error('Error decrypting OAuth client secret:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProfileId]);
+
+  const handleCreateProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) {
+      return;
+    }
+    const profile = createProfile(name);
+    const updated = [...profiles, profile];
+    saveProfiles(updated);
+    setProfiles(updated);
+    setSelectedProfileId(profile.id);
+    setNewProfileName('');
+  };
+
+  const handleDeleteProfile = () => {
+    const deleted = profiles.find((profile) => profile.id === selectedProfileId);
+    const remaining = profiles.filter((profile) => profile.id !== selectedProfileId);
+    if (!deleted || remaining.length === 0) {
+      return;
+    }
+    saveProfiles(remaining);
+    setProfiles(remaining);
+    if (deleted.id === activeProfileId) {
+      setActiveProfileId(remaining[0].id);
+      setActiveProfile(remaining[0].id);
+    }
+    setSelectedProfileId(remaining[0].id);
+    toast({
+      title: "Profile deleted",
+      description: `${deleted.name} has been removed from this device.`,
+    });
+  };
+
+  // Saving makes the edited profile the active one
+  const saveSelectedProfile = (changes: Partial<Omit<ConnectionProfile, 'id'>>) => {
+    updateProfile(selectedProfileId, { name: profileName.trim() || 'Untitled', backendType, ...changes });
+    setActiveProfileId(selectedProfileId);
+  };
+
+  // The client secret is stored like the other credentials, encrypted once
+  // a passphrase is set up
+  const saveOauthSettings = async () => {
+    saveSelectedProfile({
+      sheetId: sheetId.trim(),
+      sheetName: sheetName.trim() || 'Sheet1',
+      authMode,
+      oauthClientId: oauthClientId.trim(),
+    });
+    await saveProfileSecret(selectedProfileId, 'oauthClientSecret', oauthClientSecret.trim());
+  };
+
+  // Saves what has been entered so far, since signing in leaves the page,
+  // then hands over to Google. The callback route brings the user back here.
+  const handleSignIn = async () => {
+    try {
+      await saveOauthSettings();
+      await startSignIn(getProfile(selectedProfileId));
+    } catch (error) {
+      toast({
+        title: "Sign-in Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut(getProfile(selectedProfileId));
+    setOauthSignedIn(false);
+    setOauthEmail('');
+    toast({
+      title: "Signed out",
+      description: "This profile is no longer signed in to Google.",
+    });
+  };
 
   const handleSave = async () => {
+    if (backendType !== 'googleSheets') {
+      saveSelectedProfile({});
+      toast({
+        title: "Settings Saved",
+        description: "Configuration saved successfully! Redirecting to home...",
+      });
+      setTimeout(() => {
+        navigate('/');
+      }, 1500);
+      return;
+    }
+
     if (!sheetId.trim()) {
       toast({
         title: "Missing Information",
@@ -39,6 +203,27 @@ const Settings = () => {
       return;
     }
 
+    if (authMode === 'oauth') {
+      if (!oauthClientId.trim() || !oauthSignedIn) {
+        toast({
+          title: "Sign-in Required",
+          description: "Please enter your OAuth client ID and sign in with Google",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await saveOauthSettings();
+      toast({
+        title: "Settings Saved",
+        description: "Configuration saved successfully! Redirecting to home...",
+      });
+      setTimeout(() => {
+        navigate('/');
+      }, 1500);
+      return;
+    }
+
     // Validate service account JSON if provided
     if (serviceAccountKey.trim()) {
       try {
@@ -63,13 +248,31 @@ const Settings = () => {
       return;
     }
 
+    if (needsPassphrase && (passphrase.length < MIN_PASSPHRASE_LENGTH || passphrase !== passphraseConfirmation)) {
+      toast({
+        title: "Passphrase Required",
+        description: passphrase.length < MIN_PASSPHRASE_LENGTH
+          ? `Please choose a passphrase or PIN of at least ${MIN_PASSPHRASE_LENGTH} characters`
+          : "The passphrases do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
     
     try {
-      // Save to localStorage
-      localStorage.setItem('googleSheetsId', sheetId.trim());
-      localStorage.setItem('googleSheetsName', sheetName.trim());
-      localStorage.setItem('serviceAccountKey', serviceAccountKey.trim());
+      if (needsPassphrase) {
+        await setUpVault(passphrase);
+      }
+
+      // Save to the profile in localStorage, with the key encrypted
+      saveSelectedProfile({
+        sheetId: sheetId.trim(),
+        sheetName: sheetName.trim() || 'Sheet1',
+        serviceAccountKey: await encryptSecret(serviceAccountKey.trim()),
+        authMode,
+      });
       
       toast({
         title: "Settings Saved",
@@ -140,101 +343,313 @@ const Settings = () => {
       </div>
 
       <div className="max-w-md mx-auto px-4 py-6">
-        <Card className="p-6 bg-white shadow-sm">
-          <h2 className="text-lg font-semibold mb-4">Google Sheets Configuration</h2>
-          
+        <Card className="p-6 mb-6 bg-white shadow-sm">
+          <h2 className="text-lg font-semibold mb-4">Profiles</h2>
+
           <div className="space-y-4">
-            {/* Service Account JSON */}
-            <div>
-              <Label htmlFor="serviceAccount" className="text-sm font-medium">
-                Service Account JSON *
-              </Label>
-              <div className="mt-1">
-                <Textarea
-                  id="serviceAccount"
-                  value={showServiceAccount ? serviceAccountKey : serviceAccountKey ? '***SERVICE ACCOUNT CONFIGURED***' : ''}
-                  onChange={(e) => setServiceAccountKey(e.target.value)}
-                  placeholder="Paste your service account JSON here or upload file below"
-                  className="min-h-[100px] font-mono text-xs"
-                  readOnly={!showServiceAccount && serviceAccountKey.length > 0}
-                />
-                <div className="flex items-center gap-2 mt-2">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setShowServiceAccount(!showServiceAccount)}
-                  >
-                    {showServiceAccount ? <EyeOff className="h-3 w-3 mr-1" /> : <Eye className="h-3 w-3 mr-1" />}
-                    {showServiceAccount ? 'Hide' : 'Show'}
-                  </Button>
-                  <div className="flex-1">
-                    <Input
-                      type="file"
-                      accept=".json"
-                      onChange={handleFileUpload}
-                      className="hidden"
-                      id="fileUpload"
-                    />
-                    <Label htmlFor="fileUpload">
-                      <Button variant="outline" size="sm" type="button" className="cursor-pointer">
-                        <Upload className="h-3 w-3 mr-1" />
-                        Upload JSON
-                      </Button>
-                    </Label>
-                  </div>
-                </div>
-              </div>
-              <p className="text-xs text-gray-500 mt-1">
-                Required for add/delete operations
-              </p>
-            </div>
+            <Select value={selectedProfileId} onValueChange={setSelectedProfileId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}{profile.id === activeProfileId ? ' (active)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
 
-            {/* Sheet ID Input */}
             <div>
-              <Label htmlFor="sheetId" className="text-sm font-medium">
-                Google Sheet ID *
+              <Label htmlFor="profileName" className="text-sm font-medium">
+                Profile Name
               </Label>
               <Input
-                id="sheetId"
-                value={sheetId}
-                onChange={(e) => handleSheetIdChange(e.target.value)}
-                placeholder="Sheet ID or full Google Sheets URL"
+                id="profileName"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="e.g. Home, Work kitchen"
                 className="mt-1"
               />
               <p className="text-xs text-gray-500 mt-1">
-                You can paste the full URL or just the sheet ID
+                Saving below makes this profile the active one. Switch profiles from the menu on the main screen.
               </p>
             </div>
 
-            {/* Sheet Name Input */}
-            <div>
-              <Label htmlFor="sheetName" className="text-sm font-medium">
-                Sheet Name
-              </Label>
+            <div className="flex gap-2">
               <Input
-                id="sheetName"
-                value={sheetName}
-                onChange={(e) => setSheetName(e.target.value)}
-                placeholder="Sheet1"
-                className="mt-1"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && handleCreateProfile()}
+                placeholder="New profile name"
+                className="flex-1"
               />
-              <p className="text-xs text-gray-500 mt-1">
-                The name of the specific sheet tab (default: Sheet1)
-              </p>
+              <Button variant="outline" onClick={handleCreateProfile} disabled={!newProfileName.trim()} className="px-4">
+                <Plus className="h-4 w-4" />
+              </Button>
             </div>
 
+            {profiles.length > 1 && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="w-full text-red-600 border-red-200 hover:bg-red-50">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Profile
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete {profileName || 'this profile'}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The connection settings are removed from this device. Your spreadsheet is not affected.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDeleteProfile} className="bg-red-600 hover:bg-red-700">
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        </Card>
+
+        <Card className="p-6 mb-6 bg-white shadow-sm">
+          <h2 className="text-lg font-semibold mb-4">Storage</h2>
+
+          <RadioGroup
+            value={backendType}
+            onValueChange={(value) => setBackendTypeState(value as BackendType)}
+            className="space-y-3"
+          >
+            {BACKEND_OPTIONS.map((option) => (
+              <div key={option.value} className="flex items-start gap-3">
+                <RadioGroupItem value={option.value} id={`backend-${option.value}`} className="mt-1" />
+                <Label htmlFor={`backend-${option.value}`} className="cursor-pointer">
+                  <span className="text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-gray-500 font-normal mt-0.5">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {backendType !== 'googleSheets' && (
             <Button
               onClick={handleSave}
-              disabled={isLoading}
-              className="w-full bg-green-600 hover:bg-green-700 text-white"
+              className="w-full mt-6 bg-green-600 hover:bg-green-700 text-white"
             >
               <Save className="h-4 w-4 mr-2" />
-              {isLoading ? 'Saving...' : 'Save & Go Home'}
+              Save & Go Home
             </Button>
-          </div>
+          )}
         </Card>
 
+        {backendType === 'googleSheets' && (
+          <Card className="p-6 bg-white shadow-sm">
+            <h2 className="text-lg font-semibold mb-4">Google Sheets Configuration</h2>
+          
+            <div className="space-y-4">
+              {/* Authentication */}
+              <div>
+                <Label className="text-sm font-medium">Sign-in Method</Label>
+                <RadioGroup
+                  value={authMode}
+                  onValueChange={(value) => setAuthMode(value as AuthMode)}
+                  className="flex gap-4 mt-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="serviceAccount" id="auth-serviceAccount" />
+                    <Label htmlFor="auth-serviceAccount" className="text-sm font-normal cursor-pointer">
+                      Service account
+                    </Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="oauth" id="auth-oauth" />
+                    <Label htmlFor="auth-oauth" className="text-sm font-normal cursor-pointer">
+                      Sign in with Google
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              {authMode === 'serviceAccount' ? (
+                <>
+                {/* Service Account JSON */}
+                <div>
+                  <Label htmlFor="serviceAccount" className="text-sm font-medium">
+                    Service Account JSON *
+                  </Label>
+                  <div className="mt-1">
+                    <Textarea
+                      id="serviceAccount"
+                      value={showServiceAccount ? serviceAccountKey : serviceAccountKey ? '***SERVICE ACCOUNT CONFIGURED***' : ''}
+                      onChange={(e) => setServiceAccountKey(e.target.value)}
+                      placeholder="Paste your service account JSON here or upload file below"
+                      className="min-h-[100px] font-mono text-xs"
+                      readOnly={!showServiceAccount && serviceAccountKey.length > 0}
+                    />
+                    <div className="flex items-center gap-2 mt-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowServiceAccount(!showServiceAccount)}
+                      >
+                        {showServiceAccount ? <EyeOff className="h-3 w-3 mr-1" /> : <Eye className="h-3 w-3 mr-1" />}
+                        {showServiceAccount ? 'Hide' : 'Show'}
+                      </Button>
+                      <div className="flex-1">
+                        <Input
+                          type="file"
+                          accept=".json"
+                          onChange={handleFileUpload}
+                          className="hidden"
+                          id="fileUpload"
+                        />
+                        <Label htmlFor="fileUpload">
+                          <Button variant="outline" size="sm" type="button" className="cursor-pointer">
+                            <Upload className="h-3 w-3 mr-1" />
+                            Upload JSON
+                          </Button>
+                        </Label>
+                      </div>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Required for add/delete operations
+                  </p>
+                </div>
+
+                {needsPassphrase && (
+                  <div>
+                    <Label htmlFor="passphrase" className="text-sm font-medium">
+                      Passphrase or PIN *
+                    </Label>
+                    <Input
+                      id="passphrase"
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      placeholder="Used to encrypt the key on this device"
+                      className="mt-1"
+                    />
+                    <Input
+                      type="password"
+                      value={passphraseConfirmation}
+                      onChange={(e) => setPassphraseConfirmation(e.target.value)}
+                      placeholder="Confirm passphrase or PIN"
+                      className="mt-2"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      You will be asked for it when the app starts and after a few minutes without use
+                    </p>
+                  </div>
+                )}
+                </>
+              ) : (
+                <>
+                  <div>
+                    <Label htmlFor="oauthClientId" className="text-sm font-medium">
+                      OAuth Client ID *
+                    </Label>
+                    <Input
+                      id="oauthClientId"
+                      value={oauthClientId}
+                      onChange={(e) => setOauthClientId(e.target.value)}
+                      placeholder="1234567890-abc.apps.googleusercontent.com"
+                      className="mt-1"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      From Google Cloud Console. Add {getRedirectUri()} as an authorized redirect URI.
+                    </p>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="oauthClientSecret" className="text-sm font-medium">
+                      Client Secret
+                    </Label>
+                    <Input
+                      id="oauthClientSecret"
+                      type="password"
+                      value={oauthClientSecret}
+                      onChange={(e) => setOauthClientSecret(e.target.value)}
+                      placeholder="Only for Web application clients"
+                      className="mt-1"
+                    />
+                  </div>
+
+                  {oauthSignedIn ? (
+                    <div className="flex items-center justify-between gap-2 p-3 rounded-md bg-green-50 border border-green-200">
+                      <p className="text-sm text-green-800 truncate">
+                        Signed in{oauthEmail ? ` as ${oauthEmail}` : ''}
+                      </p>
+                      <Button variant="outline" size="sm" onClick={handleSignOut}>
+                        <LogOut className="h-3 w-3 mr-1" />
+                        Sign out
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      onClick={handleSignIn}
+                      disabled={!oauthClientId.trim()}
+                      className="w-full"
+                    >
+                      <LogIn className="h-4 w-4 mr-2" />
+                      Sign in with Google
+                    </Button>
+                  )}
+                </>
+              )}
+
+              {/* Sheet ID Input */}
+              <div>
+                <Label htmlFor="sheetId" className="text-sm font-medium">
+                  Google Sheet ID *
+                </Label>
+                <Input
+                  id="sheetId"
+                  value={sheetId}
+                  onChange={(e) => handleSheetIdChange(e.target.value)}
+                  placeholder="Sheet ID or full Google Sheets URL"
+                  className="mt-1"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  You can paste the full URL or just the sheet ID
+                </p>
+              </div>
+
+              {/* Sheet Name Input */}
+              <div>
+                <Label htmlFor="sheetName" className="text-sm font-medium">
+                  Sheet Name
+                </Label>
+                <Input
+                  id="sheetName"
+                  value={sheetName}
+                  onChange={(e) => setSheetName(e.target.value)}
+                  placeholder="Sheet1"
+                  className="mt-1"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  The tab of the list to open (default: Sheet1). Switch between lists from the list name on the main screen.
+                </p>
+              </div>
+
+              <Button
+                onClick={handleSave}
+                disabled={isLoading}
+                className="w-full bg-green-600 hover:bg-green-700 text-white"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {isLoading ? 'Saving...' : 'Save & Go Home'}
+              </Button>
+            </div>
+          </Card>
+        )}
+
         {/* Removed the "Setup Instructions" section below */}
         {/*
         <Card className="p-6 mt-6 bg-blue-50 border-blue-200">
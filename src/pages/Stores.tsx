@@ -0,0 +1,372 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Plus, Trash2, GripVertical, ShoppingCart, Tag, Package } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { CATEGORIES } from '@/lib/categorizer';
+import {
+  createStoreLayout,
+  loadStoreLayouts,
+  saveStoreLayouts,
+  setShoppingStoreId,
+  type AisleStop,
+  type StoreLayout,
+} from '@/lib/storeLayouts';
+
+interface SortableStopProps {
+  stop: AisleStop;
+  position: number;
+  onRemove: (stop: AisleStop) => void;
+}
+
+const SortableStop: React.FC<SortableStopProps> = ({ stop, position, onRemove }) => {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: stop.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`flex items-center gap-2 p-2 bg-white border rounded-md cursor-grab active:cursor-grabbing ${
+        isDragging ? 'opacity-50 shadow-lg' : ''
+      }`}
+      {...attributes}
+      {...listeners}
+    >
+      <GripVertical className="h-4 w-4 text-gray-400" />
+      <span className="w-6 text-xs text-gray-400">{position}</span>
+      {stop.type === 'category' ? (
+        <Tag className="h-3.5 w-3.5 text-green-600" />
+      ) : (
+        <Package className="h-3.5 w-3.5 text-blue-600" />
+      )}
+      <span className="flex-1 text-sm">{stop.value}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={(e) => {
+          e.stopPropagation(); // Prevent triggering drag when clicking remove
+          onRemove(stop);
+        }}
+        className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 h-auto cursor-pointer"
+        title="Remove stop"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+};
+
+const Stores = () => {
+  const [layouts, setLayouts] = useState<StoreLayout[]>(loadStoreLayouts);
+  const [selectedId, setSelectedId] = useState<string | null>(() => loadStoreLayouts()[0]?.id ?? null);
+  const [newStoreName, setNewStoreName] = useState('');
+  const [newCategoryStop, setNewCategoryStop] = useState('');
+  const [newItemStop, setNewItemStop] = useState('');
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const selected = layouts.find((layout) => layout.id === selectedId) ?? null;
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8, // Start dragging after moving 8px
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const updateLayouts = (updated: StoreLayout[]) => {
+    setLayouts(updated);
+    saveStoreLayouts(updated);
+  };
+
+  const updateSelected = (changes: Partial<StoreLayout>) => {
+    if (selected) {
+      updateLayouts(layouts.map((layout) => (layout.id === selected.id ? { ...layout, ...changes } : layout)));
+    }
+  };
+
+  const handleCreateStore = () => {
+    const name = newStoreName.trim();
+    if (!name) {
+      return;
+    }
+    const layout = createStoreLayout(name);
+    updateLayouts([...layouts, layout]);
+    setSelectedId(layout.id);
+    setNewStoreName('');
+  };
+
+  const handleDeleteStore = () => {
+    if (!selected) {
+      return;
+    }
+    const remaining = layouts.filter((layout) => layout.id !== selected.id);
+    updateLayouts(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+    toast({
+      title: "Store deleted",
+      description: `${selected.name} has been removed.`,
+    });
+  };
+
+  const handleAddStop = (type: AisleStop['type'], value: string) => {
+    const trimmed = value.trim();
+    if (!selected || !trimmed) {
+      return;
+    }
+    if (selected.stops.some((stop) => stop.type === type && stop.value.toLowerCase() === trimmed.toLowerCase())) {
+      toast({
+        title: "Already in this store",
+        description: `${trimmed} is already part of the aisle order.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    updateSelected({ stops: [...selected.stops, { id: crypto.randomUUID(), type, value: trimmed }] });
+    setNewCategoryStop('');
+    setNewItemStop('');
+  };
+
+  const handleRemoveStop = (stop: AisleStop) => {
+    if (selected) {
+      updateSelected({ stops: selected.stops.filter((existing) => existing.id !== stop.id) });
+    }
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (selected && over && active.id !== over.id) {
+      const oldIndex = selected.stops.findIndex((stop) => stop.id === active.id);
+      const newIndex = selected.stops.findIndex((stop) => stop.id === over.id);
+      updateSelected({ stops: arrayMove(selected.stops, oldIndex, newIndex) });
+    }
+  };
+
+  const handleStartShopping = () => {
+    if (selected) {
+      setShoppingStoreId(selected.id);
+      navigate('/');
+    }
+  };
+
+  const unusedCategories = CATEGORIES.filter(
+    (category) => !selected?.stops.some((stop) => stop.type === 'category' && stop.value === category)
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 to-emerald-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-md mx-auto px-4 py-4 flex items-center">
+          <Link to="/">
+            <Button variant="ghost" size="sm" className="mr-3 p-2">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-semibold text-gray-900">Stores</h1>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto px-4 py-6 space-y-6">
+        <Card className="p-6 bg-white shadow-sm">
+          <h2 className="text-lg font-semibold mb-4">Your Stores</h2>
+
+          {layouts.length > 0 && (
+            <Select value={selectedId ?? undefined} onValueChange={setSelectedId}>
+              <SelectTrigger className="mb-4">
+                <SelectValue placeholder="Choose a store" />
+              </SelectTrigger>
+              <SelectContent>
+                {layouts.map((layout) => (
+                  <SelectItem key={layout.id} value={layout.id}>
+                    {layout.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              value={newStoreName}
+              onChange={(e) => setNewStoreName(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleCreateStore()}
+              placeholder="New store name, e.g. Tesco Extra"
+              className="flex-1"
+            />
+            <Button onClick={handleCreateStore} disabled={!newStoreName.trim()} className="px-4">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </Card>
+
+        {selected && (
+          <Card className="p-6 bg-white shadow-sm">
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="storeName" className="text-sm font-medium">
+                  Store Name
+                </Label>
+                <Input
+                  id="storeName"
+                  value={selected.name}
+                  onChange={(e) => updateSelected({ name: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium mb-1">Aisle Order</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Drag stops into the order you walk the store. Specific items override their category.
+                </p>
+                <DndContext
+                  sensors={sensors}
+                  collisionDetection={closestCenter}
+                  onDragEnd={handleDragEnd}
+                >
+                  <SortableContext
+                    items={selected.stops.map((stop) => stop.id)}
+                    strategy={verticalListSortingStrategy}
+                  >
+                    <div className="space-y-2">
+                      {selected.stops.map((stop, index) => (
+                        <SortableStop
+                          key={stop.id}
+                          stop={stop}
+                          position={index + 1}
+                          onRemove={handleRemoveStop}
+                        />
+                      ))}
+                    </div>
+                  </SortableContext>
+                </DndContext>
+              </div>
+
+              <div className="flex gap-2">
+                <Select value={newCategoryStop} onValueChange={(value) => handleAddStop('category', value)}>
+                  <SelectTrigger className="flex-1" disabled={unusedCategories.length === 0}>
+                    <SelectValue placeholder="Add a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unusedCategories.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {category}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex gap-2">
+                <Input
+                  value={newItemStop}
+                  onChange={(e) => setNewItemStop(e.target.value)}
+                  onKeyPress={(e) => e.key === 'Enter' && handleAddStop('item', newItemStop)}
+                  placeholder="Add a specific item, e.g. Bananas"
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handleAddStop('item', newItemStop)}
+                  disabled={!newItemStop.trim()}
+                  className="px-4"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <Button
+                onClick={handleStartShopping}
+                className="w-full bg-green-600 hover:bg-green-700 text-white"
+              >
+                <ShoppingCart className="h-4 w-4 mr-2" />
+                Shop at {selected.name || 'this store'}
+              </Button>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="w-full text-red-600 border-red-200 hover:bg-red-50">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Store
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete {selected.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The aisle order for this store will be lost. Your grocery list is not affected.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDeleteStore} className="bg-red-600 hover:bg-red-700">
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Stores;
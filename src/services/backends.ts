@@ -0,0 +1,68 @@
+import { hasNamedLists, type BackendType, type GroceryListBackend } from './groceryListBackend';
+import { GoogleSheetsService } from './googleSheetsService';
+import { LocalStorageBackend } from './localStorageBackend';
+import { MemoryBackend } from './memoryBackend';
+import { DEFAULT_PROFILE_ID, getActiveProfile, profileScope, type ConnectionProfile } from './profiles';
+
+export const BACKEND_OPTIONS: { value: BackendType; label: string; description: string }[] = [
+  {
+    value: 'googleSheets',
+    label: 'Google Sheets',
+    description: 'Shared with Alexa and other devices through a Google Sheet',
+  },
+  {
+    value: 'localStorage',
+    label: 'This device',
+    description: 'Stored in this browser only, works without a Google account',
+  },
+  {
+    value: 'memory',
+    label: 'Temporary (in memory)',
+    description: 'Cleared when the app is reloaded - handy for trying things out',
+  },
+];
+
+// One backend per profile, created on first use
+const backends = new Map<string, GroceryListBackend>();
+
+const createBackend = (profile: ConnectionProfile): GroceryListBackend => {
+  switch (profile.backendType) {
+    case 'googleSheets':
+      return new GoogleSheetsService(profile.id);
+    case 'localStorage':
+      return new LocalStorageBackend(profile.id === DEFAULT_PROFILE_ID ? '' : profile.id);
+    case 'memory':
+      return new MemoryBackend();
+  }
+};
+
+export const getBackendForProfile = (profile: ConnectionProfile): GroceryListBackend => {
+  const key = `${profile.id}/${profile.backendType}`;
+  let backend = backends.get(key);
+  if (!backend) {
+    backend = createBackend(profile);
+    backends.set(key, backend);
+  }
+  return backend;
+};
+
+export const getBackendType = (): BackendType => getActiveProfile().backendType;
+
+export const getActiveBackend = (): GroceryListBackend => getBackendForProfile(getActiveProfile());
+
+// The list a profile currently shows; backends without named lists have a
+// single, unnamed list
+export const getActiveListName = (profile: ConnectionProfile): string => {
+  const backend = getBackendForProfile(profile);
+  return hasNamedLists(backend) ? backend.getActiveList() : '';
+};
+
+export const getListBackend = (profile: ConnectionProfile, listName: string): GroceryListBackend => {
+  const backend = getBackendForProfile(profile);
+  return hasNamedLists(backend) ? backend.forList(listName) : backend;
+};
+
+// Query cache and outbox scope of one list, so each profile and list keeps
+// its own cached items and pending changes
+export const getListScope = (profile: ConnectionProfile, listName: string): string =>
+  profileScope(profile, listName ? `${profile.backendType}/${listName}` : profile.backendType);
@@ -0,0 +1,142 @@
+import { endOfMonth, format, getDate, getDaysInMonth, startOfMonth, subMonths } from 'date-fns';
+import { itemCost } from '@/lib/prices';
+import type { GroceryItem } from './groceryListBackend';
+import { priceFor, type PriceBook } from './priceBook';
+import { profileScope, type ConnectionProfile } from './profiles';
+
+// A monthly grocery budget and the shopping trips counted against it. A trip
+// is recorded when checked-off items are cleared, with either the total
+// entered at the till or the sum of the items' prices. Kept on this device,
+// separately for each profile.
+
+export interface Trip {
+  id: string;
+  // ISO timestamp
+  at: string;
+  total: number;
+  storeId: string | null;
+  storeName: string;
+  // Share of the total per category
+  byCategory: Record<string, number>;
+}
+
+export interface MonthSummary {
+  spent: number;
+  // Where the month is heading at the current pace, or with the current
+  // list bought, whichever is more
+  projected: number;
+}
+
+const TRIPS_KEY = 'trips';
+const BUDGET_KEY = 'monthlyBudget';
+const UNCATEGORIZED = 'Uncategorized';
+
+export const loadTrips = (profile: ConnectionProfile): Trip[] => {
+  try {
+    return JSON.parse(localStorage.getItem(profileScope(profile, TRIPS_KEY)) || '[]');
+  } catch (error) {
+    console.error('Error parsing trips:', error);
+    return [];
+  }
+};
+
+export const saveTrips = (profile: ConnectionProfile, trips: Trip[]): void => {
+  localStorage.setItem(profileScope(profile, TRIPS_KEY), JSON.stringify(trips));
+};
+
+export const loadBudget = (profile: ConnectionProfile): number | null => {
+  const value = Number(localStorage.getItem(profileScope(profile, BUDGET_KEY)));
+  return value > 0 ? value : null;
+};
+
+export const saveBudget = (profile: ConnectionProfile, budget: number | null): void => {
+  if (budget) {
+    localStorage.setItem(profileScope(profile, BUDGET_KEY), String(budget));
+  } else {
+    localStorage.removeItem(profileScope(profile, BUDGET_KEY));
+  }
+};
+
+// What the bought items cost by category, from their prices or the last
+// price paid at the store
+export const costByCategory = (
+  items: GroceryItem[],
+  book: PriceBook,
+  storeId: string | null
+): Record<string, number> =>
+  items.reduce<Record<string, number>>((totals, item) => {
+    const price = priceFor(book, item, storeId);
+    if (price !== null) {
+      const category = item.category || UNCATEGORIZED;
+      totals[category] = (totals[category] ?? 0) + itemCost(item, price);
+    }
+    return totals;
+  }, {});
+
+// Builds a trip for a total paid. The category split follows the item
+// prices, scaled to the total; with no prices it is all uncategorized.
+export const createTrip = (
+  total: number,
+  itemCosts: Record<string, number>,
+  store: { id: string; name: string } | null,
+  at: Date = new Date()
+): Trip => {
+  const itemsTotal = Object.values(itemCosts).reduce((sum, cost) => sum + cost, 0);
+  const byCategory = itemsTotal > 0
+    ? Object.fromEntries(Object.entries(itemCosts).map(([category, cost]) => [category, (cost / itemsTotal) * total]))
+    : { [UNCATEGORIZED]: total };
+  return {
+    id: crypto.randomUUID(),
+    at: at.toISOString(),
+    total,
+    storeId: store?.id ?? null,
+    storeName: store?.name ?? '',
+    byCategory,
+  };
+};
+
+const inMonth = (trip: Trip, month: Date): boolean => {
+  const at = new Date(trip.at);
+  return at >= startOfMonth(month) && at <= endOfMonth(month);
+};
+
+export const summarizeMonth = (trips: Trip[], pending: number, today: Date = new Date()): MonthSummary => {
+  const spent = trips.filter(trip => inMonth(trip, today)).reduce((sum, trip) => sum + trip.total, 0);
+  const atPace = (spent / getDate(today)) * getDaysInMonth(today);
+  return { spent, projected: Math.max(atPace, spent + pending) };
+};
+
+// Spend per month, oldest first, for the last `months` months
+export const spendByMonth = (trips: Trip[], months: number, today: Date = new Date()) =>
+  Array.from({ length: months }, (_, index) => {
+    const month = subMonths(today, months - 1 - index);
+    return {
+      month: format(month, 'MMM'),
+      total: trips.filter(trip => inMonth(trip, month)).reduce((sum, trip) => sum + trip.total, 0),
+    };
+  });
+
+export const spendByCategory = (trips: Trip[]) => {
+  const totals = new Map<string, number>();
+  trips.forEach(trip => {
+    Object.entries(trip.byCategory).forEach(([category, amount]) => {
+      totals.set(category, (totals.get(category) ?? 0) + amount);
+    });
+  });
+  return [...totals.entries()]
+    .map(([category, total]) => ({ category, total }))
+    .sort((a, b) => b.total - a.total);
+};
+
+export const spendByStore = (trips: Trip[]) => {
+  const totals = new Map<string, number>();
+  trips.forEach(trip => {
+    const store = trip.storeName || 'Other';
+    totals.set(store, (totals.get(store) ?? 0) + trip.total);
+  });
+  return [...totals.entries()]
+    .map(([store, total]) => ({ store, total }))
+    .sort((a, b) => b.total - a.total);
+};
+
+export const tripsInMonth = (trips: Trip[], month: Date): Trip[] => trips.filter(trip => inMonth(trip, month));
@@ -0,0 +1,34 @@
+import type { GroceryItem } from './groceryListBackend';
+import type { ConnectionProfile } from './profiles';
+import { costByCategory } from './budget';
+import { loadPantry, savePantry, stockPantry } from './pantry';
+import { recordPaidPrices, type PriceBook } from './priceBook';
+import { recordHistory } from './purchaseHistory';
+
+// What happens to items once they have been bought, whether they were
+// checked off and cleared or matched on a receipt. Archiving them is left to
+// the caller, which queues it with the rest of its list changes.
+
+export interface CheckoutResult {
+  // What the items cost by category, for recording the trip
+  costs: Record<string, number>;
+  priceBook: PriceBook;
+  // Settles once the purchases are in the history
+  history: Promise<void>;
+}
+
+export const checkOutItems = (
+  profile: ConnectionProfile,
+  listName: string,
+  items: GroceryItem[],
+  storeId: string | null
+): CheckoutResult => {
+  const priceBook = recordPaidPrices(profile, items, storeId);
+  // Whatever was bought is now at home
+  savePantry(profile, stockPantry(loadPantry(profile), items));
+  return {
+    costs: costByCategory(items, priceBook, storeId),
+    priceBook,
+    history: recordHistory(profile, listName, items, 'purchased'),
+  };
+};
@@ -0,0 +1,199 @@
+import { loadProfiles, saveProfiles, SECRET_FIELDS, updateProfile, type SecretField } from './profiles';
+
+// Keeps credentials (service account keys, Google sign-in refresh tokens)
+// encrypted at rest. An AES-GCM key is derived
+// from the user's passphrase or PIN with PBKDF2 and only ever held in memory;
+// localStorage holds the salt, a check value to recognise the right
+// passphrase, and the encrypted secrets themselves.
+
+interface VaultRecord {
+  salt: string;
+  iterations: number;
+  // CHECK_TEXT encrypted with the derived key
+  check: string;
+}
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+const VAULT_KEY = 'credentialVault';
+const LEGACY_SECRET_KEY = 'serviceAccountKey';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const CHECK_TEXT = 'my-grocery-list';
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 4;
+
+let unlockedKey: CryptoKey | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const loadVault = (): VaultRecord | null => {
+  try {
+    return JSON.parse(localStorage.getItem(VAULT_KEY) || 'null');
+  } catch (error) {
+    console.error('Error parsing credential vault:', error);
+    return null;
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Output format: "enc:v1:<base64 iv>:<base64 ciphertext>"
+const encryptWith = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+const decryptWith = async (key: CryptoKey, stored: string): Promise<string> => {
+  const [iv, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+};
+
+export const isEncryptedSecret = (value: string): boolean => value.startsWith(ENCRYPTED_PREFIX);
+
+export const subscribeToVault = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const getVaultStatus = (): VaultStatus => {
+  if (!loadVault()) {
+    return 'disabled';
+  }
+  return unlockedKey ? 'unlocked' : 'locked';
+};
+
+// True when a credential is still stored in plaintext, either in a profile
+// or under the key used before profiles existed
+export const hasPlaintextSecrets = (): boolean =>
+  !!localStorage.getItem(LEGACY_SECRET_KEY) ||
+  loadProfiles().some(profile => SECRET_FIELDS.some(field => profile[field] && !isEncryptedSecret(profile[field])));
+
+// Creates the vault from a new passphrase, unlocks it, and encrypts every
+// plaintext credential already saved on this device
+export const setUpVault = async (passphrase: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+
+  const profiles = await Promise.all(loadProfiles().map(async profile => {
+    const encrypted = { ...profile };
+    for (const field of SECRET_FIELDS) {
+      if (profile[field] && !isEncryptedSecret(profile[field])) {
+        encrypted[field] = await encryptWith(key, profile[field]);
+      }
+    }
+    return encrypted;
+  }));
+
+  const record: VaultRecord = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptWith(key, CHECK_TEXT),
+  };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(record));
+  saveProfiles(profiles);
+  localStorage.removeItem(LEGACY_SECRET_KEY);
+
+  console.log('Credential vault set up');
+  unlockedKey = key;
+  notify();
+};
+
+// Returns false when the passphrase is wrong
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const record = loadVault();
+  if (!record) {
+    throw new Error('No credentials have been protected on this device yet.');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(record.salt), record.iterations);
+  try {
+    if (await decryptWith(key, record.check) !== CHECK_TEXT) {
+      return false;
+    }
+  } catch {
+    // AES-GCM rejects ciphertext decrypted with the wrong key
+    return false;
+  }
+
+  unlockedKey = key;
+  notify();
+  return true;
+};
+
+export const lockVault = (): void => {
+  if (unlockedKey) {
+    unlockedKey = null;
+    notify();
+  }
+};
+
+// For a forgotten passphrase: the encrypted credentials cannot be recovered,
+// so they are removed and have to be added again in settings
+export const resetVault = (): void => {
+  saveProfiles(loadProfiles().map(profile => {
+    const cleared = { ...profile };
+    SECRET_FIELDS.filter(field => isEncryptedSecret(profile[field] || '')).forEach(field => {
+      cleared[field] = '';
+    });
+    return cleared;
+  }));
+  localStorage.removeItem(VAULT_KEY);
+  unlockedKey = null;
+  notify();
+};
+
+export const encryptSecret = async (plaintext: string): Promise<string> => {
+  if (!unlockedKey) {
+    throw new Error('Credentials are locked. Unlock the app to save them.');
+  }
+  return encryptWith(unlockedKey, plaintext);
+};
+
+// Stores a credential on a profile, encrypted when a passphrase is set up.
+// Otherwise it is saved as is and the app asks for a passphrase to protect it.
+export const saveProfileSecret = async (profileId: string, field: SecretField, plaintext: string): Promise<void> => {
+  const value = plaintext && unlockedKey ? await encryptWith(unlockedKey, plaintext) : plaintext;
+  updateProfile(profileId, { [field]: value });
+  notify();
+};
+
+// Returns the plaintext of a stored secret; values saved before encryption
+// was set up are returned unchanged
+export const readSecret = async (stored: string): Promise<string> => {
+  if (!isEncryptedSecret(stored)) {
+    return stored;
+  }
+  if (!unlockedKey) {
+    throw new Error('Credentials are locked. Unlock the app to continue.');
+  }
+  return decryptWith(unlockedKey, stored);
+};
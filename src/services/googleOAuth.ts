@@ -0,0 +1,199 @@
+import { getProfile, updateProfile, type ConnectionProfile } from './profiles';
+import { readSecret, saveProfileSecret } from './credentialVault';
+import { BackendHttpError } from './groceryListBackend';
+
+// Google sign-in for a normal user account using the OAuth 2.0 authorization
+// code flow with PKCE, so nobody has to handle a service account key. The
+// refresh token is stored (encrypted) on the profile; access tokens are only
+// kept in memory by the Sheets service.
+
+export interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+interface PendingSignIn {
+  profileId: string;
+  state: string;
+  codeVerifier: string;
+}
+
+const AUTH_ENDPOINT = 'https://accounts.google.com/o/oauth2/v2/auth';
+const TOKEN_ENDPOINT = 'https://oauth2.googleapis.com/token';
+const REVOKE_ENDPOINT = 'https://oauth2.googleapis.com/revoke';
+// Read and write the sheet; nothing outside it
+export const SHEETS_SCOPES = ['https://www.googleapis.com/auth/spreadsheets'];
+const SCOPES = ['openid', 'email', ...SHEETS_SCOPES];
+// Session storage, so an abandoned sign-in does not outlive the tab
+const PENDING_SIGN_IN_KEY = 'oauthPendingSignIn';
+
+export const OAUTH_CALLBACK_PATH = '/oauth/callback';
+
+export const getRedirectUri = (): string => `${window.location.origin}${OAUTH_CALLBACK_PATH}`;
+
+const base64UrlEncode = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+const randomString = (byteLength: number): string =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+};
+
+// Reads the signed-in user's email from the ID token. The token comes
+// straight from Google's token endpoint over TLS, so it is not re-verified.
+const emailFromIdToken = (idToken: string | undefined): string => {
+  try {
+    const payload = idToken?.split('.')[1];
+    if (!payload) {
+      return '';
+    }
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    return JSON.parse(json).email || '';
+  } catch (error) {
+    console.error('Error reading ID token:', error);
+    return '';
+  }
+};
+
+const requestToken = async (params: Record<string, string>, action: string): Promise<TokenResponse> => {
+  const response = await fetch(TOKEN_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${action} error response:`, errorText);
+    if (errorText.includes('invalid_grant')) {
+      throw new Error('Your Google sign-in has expired or was revoked. Please sign in again in settings');
+    }
+    throw new BackendHttpError(`Failed to ${action.toLowerCase()}: ${response.status} - ${errorText}`, response.status);
+  }
+
+  return response.json();
+};
+
+const clientParams = async (profile: ConnectionProfile): Promise<Record<string, string>> => {
+  const clientSecret = profile.oauthClientSecret ? await readSecret(profile.oauthClientSecret) : '';
+  return {
+    client_id: profile.oauthClientId || '',
+    ...(clientSecret ? { client_secret: clientSecret } : {}),
+  };
+};
+
+// Sends the browser to Google's consent screen. The flow finishes on the
+// callback route with completeSignIn().
+export const startSignIn = async (profile: ConnectionProfile): Promise<void> => {
+  if (!profile.oauthClientId) {
+    throw new Error('Please enter your OAuth client ID first.');
+  }
+
+  const pending: PendingSignIn = {
+    profileId: profile.id,
+    state: randomString(16),
+    codeVerifier: randomString(48),
+  };
+  sessionStorage.setItem(PENDING_SIGN_IN_KEY, JSON.stringify(pending));
+
+  const params = new URLSearchParams({
+    client_id: profile.oauthClientId,
+    redirect_uri: getRedirectUri(),
+    response_type: 'code',
+    scope: SCOPES.join(' '),
+    state: pending.state,
+    code_challenge: await createCodeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+    // Ask for a refresh token, and again on every sign-in so switching
+    // accounts always yields one
+    access_type: 'offline',
+    prompt: 'consent',
+  });
+
+  console.log('Redirecting to Google sign-in');
+  window.location.assign(`${AUTH_ENDPOINT}?${params}`);
+};
+
+// Exchanges the authorization code from the callback URL for tokens and
+// stores the refresh token on the profile that started the sign-in
+export const completeSignIn = async (search: string): Promise<ConnectionProfile> => {
+  const params = new URLSearchParams(search);
+  let pending: PendingSignIn | null = null;
+  try {
+    pending = JSON.parse(sessionStorage.getItem(PENDING_SIGN_IN_KEY) || 'null');
+  } catch (error) {
+    console.error('Error parsing pending sign-in:', error);
+  }
+  sessionStorage.removeItem(PENDING_SIGN_IN_KEY);
+
+  if (params.get('error')) {
+    throw new Error(params.get('error') === 'access_denied'
+      ? 'Sign-in was cancelled.'
+      : `Google sign-in failed: ${params.get('error')}`);
+  }
+  if (!pending || params.get('state') !== pending.state) {
+    throw new Error('This sign-in link is no longer valid. Please try signing in again.');
+  }
+
+  const profile = getProfile(pending.profileId);
+  if (!profile) {
+    throw new Error('The profile that started this sign-in no longer exists.');
+  }
+
+  const tokenData = await requestToken({
+    ...(await clientParams(profile)),
+    grant_type: 'authorization_code',
+    code: params.get('code') || '',
+    code_verifier: pending.codeVerifier,
+    redirect_uri: getRedirectUri(),
+  }, 'Complete sign-in');
+
+  if (!tokenData.refresh_token) {
+    throw new Error('Google did not return a refresh token. Please try signing in again.');
+  }
+
+  updateProfile(profile.id, { authMode: 'oauth', oauthEmail: emailFromIdToken(tokenData.id_token) });
+  await saveProfileSecret(profile.id, 'oauthRefreshToken', tokenData.refresh_token);
+  console.log('Google sign-in complete');
+  return getProfile(profile.id);
+};
+
+// Same contract as the service account exchange: a fresh access token
+export const refreshUserAccessToken = async (profile: ConnectionProfile): Promise<TokenResponse> => {
+  if (!profile.oauthRefreshToken) {
+    throw new Error('Not signed in with Google. Please sign in in settings');
+  }
+
+  console.log('Refreshing Google sign-in access token...');
+  return requestToken({
+    ...(await clientParams(profile)),
+    grant_type: 'refresh_token',
+    refresh_token: await readSecret(profile.oauthRefreshToken),
+  }, 'Refresh access token');
+};
+
+export const signOut = async (profile: ConnectionProfile): Promise<void> => {
+  if (profile.oauthRefreshToken) {
+    try {
+      // Best effort: the token is forgotten locally even if revoking fails
+      const token = await readSecret(profile.oauthRefreshToken);
+      await fetch(REVOKE_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ token })
+      });
+    } catch (error) {
+      console.error('Error revoking Google sign-in:', error);
+    }
+  }
+  updateProfile(profile.id, { oauthRefreshToken: '', oauthEmail: '' });
+};
@@ -1,20 +1,109 @@
-interface GroceryItem {
-  id: string;
-  name: string;
-  quantity?: string;
-  category?: string;
-}
+import {
+  BackendHttpError,
+  ConcurrentEditError,
+  createItemId,
+  sameItemContents,
+  type GroceryItem,
+  type GroceryListBackend,
+  type NamedListBackend,
+} from './groceryListBackend';
+import { getProfile, updateProfile } from './profiles';
+import { getVaultStatus, readSecret } from './credentialVault';
+import { refreshUserAccessToken, SHEETS_SCOPES, type TokenResponse } from './googleOAuth';
+import { parsePrice } from '@/lib/prices';
+import { mergeItemOrder } from '@/lib/orderMerge';
 
 interface GoogleSheetsResponse {
   values?: string[][];
 }
 
+interface SpreadsheetMetadata {
+  sheets?: { properties: { sheetId: number; title: string } }[];
+}
+
+interface BatchUpdateResponse {
+  replies?: { addSheet?: { properties: { sheetId: number; title: string } } }[];
+}
+
+interface ValueRange {
+  range: string;
+  values: string[][];
+}
+
+// A change worked out from the rows as read: cells to write, or whole rows
+// to delete
+interface RowsChange {
+  rows: string[][];
+  data?: ValueRange[];
+  deleteRowNumbers?: number[];
+}
+
 interface ServiceAccountCredentials {
   client_email: string;
   private_key: string;
   project_id: string;
 }
 
+// Sheet layout: A = Item, B = Quantity, C = Category, D = Checked, E = ID,
+// F = Price. The ID column holds a UUID per row so writes can find their row
+// even after Alexa or another device has added or removed rows since the
+// last fetch. The price is optional and per unit of the quantity.
+const CHECKED_INDEX = 3;
+const CHECKED_VALUE = 'TRUE';
+const ID_COLUMN = 'E';
+const ID_INDEX = 4;
+const ID_HEADER = 'ID';
+const PRICE_COLUMN = 'F';
+const PRICE_INDEX = 5;
+const PRICE_HEADER = 'Price';
+const LAST_COLUMN = PRICE_COLUMN;
+
+// How many times a write that depends on the current rows is worked out
+// again after finding they changed under it
+const MAX_WRITE_ATTEMPTS = 3;
+
+// Cleared checked-off items are moved to this tab rather than discarded
+const ARCHIVE_SHEET_NAME = 'Archive';
+const ARCHIVE_HEADER = ['Item', 'Quantity', 'Category', 'Archived At', PRICE_HEADER];
+
+// Each list tab keeps a revision marker beside the header, clear of the
+// item columns, for polling to check instead of fetching every row. H1 gets
+// a fresh token on every write from the app; I1 holds a formula over the
+// items, so rows Alexa adds or edits made by hand move it too. Tabs the app
+// has never written to have neither, and are fetched in full on every poll.
+const REVISION_RANGE = 'H1:I1';
+const REVISION_FORMULA = `=COUNTA(A:${LAST_COLUMN})&"/"&SUMPRODUCT(LEN(A:${LAST_COLUMN}))`;
+
+// Header row written to tabs created from the app
+const LIST_HEADER = ['Item', 'Quantity', 'Category', 'Checked', ID_HEADER, PRICE_HEADER];
+const DEFAULT_SHEET_NAME = 'Sheet1';
+
+// Tab names with spaces or punctuation must be quoted in A1 ranges
+const quoteSheetName = (sheetName: string): string => `'${sheetName.replace(/'/g, "''")}'`;
+
+const rowToItem = (row: string[], id: string): GroceryItem => ({
+  id,
+  name: row[0]?.trim() || '',
+  quantity: row[1]?.trim() || '',
+  category: row[2]?.trim() || '',
+  checked: row[CHECKED_INDEX]?.trim().toUpperCase() === CHECKED_VALUE,
+  price: parsePrice(row[PRICE_INDEX]) ?? undefined,
+});
+
+const itemToRow = (item: GroceryItem): string[] => [
+  item.name,
+  item.quantity || '',
+  item.category || '',
+  item.checked ? CHECKED_VALUE : '',
+  item.id,
+  item.price !== undefined ? String(item.price) : '',
+];
+
+const isItemRow = (row: string[] | undefined): boolean => {
+  const itemName = row?.[0]?.trim() || '';
+  return itemName !== '' && itemName.toLowerCase() !== 'item';
+};
+
 // Browser-compatible JWT creation function
 const createJWT = async (payload: any, privateKey: string): Promise<string> => {
   // Convert PEM private key to proper format
@@ -59,18 +148,31 @@ const createJWT = async (payload: any, privateKey: string): Promise<string> => {
   return `${encodedHeader}.${encodedPayload}.${encodedSignature}`;
 };
 
-class GoogleSheetsService {
+// Each list is a tab of the profile's spreadsheet. The profile's instance
+// works on its active list; forList() hands out instances bound to one tab.
+export class GoogleSheetsService implements NamedListBackend {
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
-
-  private getServiceAccountCredentials = (): ServiceAccountCredentials => {
-    const serviceAccountKey = localStorage.getItem('serviceAccountKey');
-    console.log('Service Account Key check:', serviceAccountKey ? 'Found' : 'Not found');
+  // Numeric tab IDs keyed by "<spreadsheet id>/<tab name>"
+  private tabIds = new Map<string, number>();
+  private listServices = new Map<string, GoogleSheetsService>();
+
+  constructor(
+    private readonly profileId: string,
+    private readonly listName: string | null = null
+  ) {}
+
+  private getServiceAccountCredentials = async (): Promise<ServiceAccountCredentials> => {
+    const storedKey = getProfile(this.profileId)?.serviceAccountKey;
+    console.log('Service Account Key check:', storedKey ? 'Found' : 'Not found');
     
-    if (!serviceAccountKey) {
+    if (!storedKey) {
       throw new Error('Service Account credentials not configured. Please add your service account JSON in settings.');
     }
 
+    // Keys are stored encrypted once a passphrase has been set
+    const serviceAccountKey = await readSecret(storedKey);
+
     try {
       const credentials = JSON.parse(serviceAccountKey);
       if (!credentials.client_email || !credentials.private_key) {
@@ -87,49 +189,62 @@ class GoogleSheetsService {
     }
   }
 
+  // Signs a JWT assertion with the service account's private key and
+  // exchanges it for an access token
+  private requestServiceAccountToken = async (): Promise<TokenResponse> => {
+    const credentials = await this.getServiceAccountCredentials();
+    console.log('Getting new OAuth access token...');
+      
+    // Create JWT token
+    const now = Math.floor(Date.now() / 1000);
+    const payload = {
+      iss: credentials.client_email,
+      scope: SHEETS_SCOPES.join(' '),
+      aud: 'https://oauth2.googleapis.com/token',
+      exp: now + 3600, // 1 hour
+      iat: now
+    };
+
+    const token = await createJWT(payload, credentials.private_key);
+    console.log('JWT created successfully');
+
+    // Exchange JWT for access token
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: token
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OAuth token error:', errorText);
+      throw new BackendHttpError(`Failed to get OAuth access token: ${response.status} - ${errorText}`, response.status);
+    }
+
+    return response.json();
+  }
+
+  // Returns a valid access token for whichever way the profile signs in:
+  // a service account key, or a Google user's sign-in
   private getAccessToken = async (): Promise<string> => {
-    // Check if we have a valid token that hasn't expired
-    if (this.accessToken && Date.now() < this.tokenExpiry) {
+    // Check if we have a valid token that hasn't expired. Locking the app
+    // also stops cached tokens from being used.
+    if (this.accessToken && Date.now() < this.tokenExpiry && getVaultStatus() !== 'locked') {
       console.log('Using cached access token');
       return this.accessToken;
     }
 
+    const profile = getProfile(this.profileId);
+    const isUserSignIn = profile?.authMode === 'oauth';
     try {
-      const credentials = this.getServiceAccountCredentials();
-      console.log('Getting new OAuth access token...');
-      
-      // Create JWT token
-      const now = Math.floor(Date.now() / 1000);
-      const payload = {
-        iss: credentials.client_email,
-        scope: 'https://www.googleapis.com/auth/spreadsheets',
-        aud: 'https://oauth2.googleapis.com/token',
-        exp: now + 3600, // 1 hour
-        iat: now
-      };
-
-      const token = await createJWT(payload, credentials.private_key);
-      console.log('JWT created successfully');
-
-      // Exchange JWT for access token
-      const response = await fetch('https://oauth2.googleapis.com/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
-          assertion: token
-        })
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('OAuth token error:', errorText);
-        throw new Error(`Failed to get OAuth access token: ${response.status} - ${errorText}`);
-      }
-
-      const tokenData = await response.json();
+      const tokenData = isUserSignIn
+        ? await refreshUserAccessToken(profile)
+        : await this.requestServiceAccountToken();
       this.accessToken = tokenData.access_token;
       this.tokenExpiry = Date.now() + (tokenData.expires_in * 1000) - 60000; // Subtract 1 minute for safety
       
@@ -137,12 +252,16 @@ class GoogleSheetsService {
       return this.accessToken;
     } catch (error) {
       console.error('Error getting access token:', error);
-      throw new Error(`Authentication failed: ${error.message}. Please check your service account configuration.`);
+      const message = `Authentication failed: ${error.message}. Please check your ${
+        isUserSignIn ? 'Google sign-in' : 'service account configuration'
+      }.`;
+      // Keep the status, so an outage at Google is retried rather than given up on
+      throw error instanceof BackendHttpError ? new BackendHttpError(message, error.status) : new Error(message);
     }
   }
 
   private getSheetId = (): string => {
-    const sheetId = localStorage.getItem('googleSheetsId');
+    const sheetId = getProfile(this.profileId)?.sheetId;
     console.log('Sheet ID check:', sheetId ? 'Found' : 'Not found');
     if (!sheetId) {
       throw new Error('Google Sheet ID not configured. Please check settings.');
@@ -151,14 +270,14 @@ class GoogleSheetsService {
   }
 
   private getSheetName = (): string => {
-    const sheetName = localStorage.getItem('googleSheetsName') || 'Sheet1';
+    const sheetName = this.listName || this.getActiveList();
     console.log('Sheet Name:', sheetName);
     return sheetName;
   }
 
   private buildApiUrl = (range: string): string => {
     const sheetId = this.getSheetId();
-    const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${range}`;
+    const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${encodeURIComponent(range)}`;
     console.log('Built API URL:', url);
     return url;
   }
@@ -170,74 +289,340 @@ class GoogleSheetsService {
     return url;
   }
 
-  getGroceryItems = async (): Promise<GroceryItem[]> => {
-    try {
-      console.log('Starting getGroceryItems...');
-      const sheetName = this.getSheetName();
-      const range = `${sheetName}!A:D`;
-      const url = this.buildApiUrl(range);
-      const token = await this.getAccessToken();
-
-      console.log('Fetching from URL:', url);
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      console.log('Response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        
-        if (response.status === 403) {
-          throw new Error('Access denied. Please ensure your service account has access to the sheet.');
-        }
-        if (response.status === 404) {
-          throw new Error('Sheet not found. Please check your Sheet ID.');
-        }
-        throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
+  private buildSpreadsheetUrl = (suffix: string = ''): string => {
+    const sheetId = this.getSheetId();
+    const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}${suffix}`;
+    console.log('Built Spreadsheet URL:', url);
+    return url;
+  }
+
+  // Fetches the spreadsheet's tabs in their on-screen order and refreshes the
+  // cached tab IDs
+  private loadTabs = async (): Promise<string[]> => {
+    const sheetId = this.getSheetId();
+    const token = await this.getAccessToken();
+    const url = this.buildSpreadsheetUrl('?fields=sheets.properties(sheetId,title)');
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
       }
+    });
 
-      const data: GoogleSheetsResponse = await response.json();
-      console.log('API Response data:', data);
-      
-      if (!data.values || data.values.length === 0) {
-        console.log('No data found');
-        return [];
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Spreadsheet metadata error response:', errorText);
+      throw new BackendHttpError(`Failed to load spreadsheet details: ${response.status} - ${errorText}`, response.status);
+    }
+
+    const metadata: SpreadsheetMetadata = await response.json();
+    [...this.tabIds.keys()]
+      .filter(key => key.startsWith(`${sheetId}/`))
+      .forEach(key => this.tabIds.delete(key));
+    metadata.sheets?.forEach(sheet => {
+      this.tabIds.set(`${sheetId}/${sheet.properties.title}`, sheet.properties.sheetId);
+    });
+    return (metadata.sheets || []).map(sheet => sheet.properties.title);
+  }
+
+  // Looks up the numeric sheetId of a tab by title, which structural requests
+  // such as deleteDimension need instead of the tab name. Returns undefined
+  // when the spreadsheet has no tab with that title.
+  private findTabId = async (title: string): Promise<number | undefined> => {
+    const cacheKey = `${this.getSheetId()}/${title}`;
+    if (!this.tabIds.has(cacheKey)) {
+      await this.loadTabs();
+    }
+    return this.tabIds.get(cacheKey);
+  }
+
+  private getTabId = async (): Promise<number> => {
+    const sheetName = this.getSheetName();
+    const tabId = await this.findTabId(sheetName);
+    if (tabId === undefined) {
+      throw new Error(`Sheet tab "${sheetName}" not found. Please check the sheet name in settings.`);
+    }
+    return tabId;
+  }
+
+  // Creates the archive tab with a header row the first time it is needed
+  private ensureArchiveTab = async (): Promise<void> => {
+    if (await this.findTabId(ARCHIVE_SHEET_NAME) !== undefined) {
+      return;
+    }
+
+    console.log('Creating archive tab');
+    const result = await this.batchUpdateSpreadsheet([
+      { addSheet: { properties: { title: ARCHIVE_SHEET_NAME } } }
+    ], 'Create archive tab');
+    const properties = result.replies?.[0]?.addSheet?.properties;
+    if (properties) {
+      this.tabIds.set(`${this.getSheetId()}/${properties.title}`, properties.sheetId);
+    }
+    await this.writeRanges([
+      { range: `${quoteSheetName(ARCHIVE_SHEET_NAME)}!A1:E1`, values: [ARCHIVE_HEADER] }
+    ], 'Write archive header');
+  }
+
+  // Removes whole rows so the sheet never fills up with blank gaps. Rows are
+  // deleted bottom-up so earlier deletions do not shift later ones.
+  private deleteRows = async (rowNumbers: number[], action: string): Promise<void> => {
+    const tabId = await this.getTabId();
+    const requests = [...rowNumbers]
+      .sort((a, b) => b - a)
+      .map(rowNumber => ({
+        deleteDimension: {
+          range: {
+            sheetId: tabId,
+            dimension: 'ROWS',
+            startIndex: rowNumber - 1,
+            endIndex: rowNumber,
+          }
+        }
+      }));
+
+    console.log('Removing rows:', rowNumbers);
+    await this.batchUpdateSpreadsheet(requests, action);
+  }
+
+  private batchUpdateSpreadsheet = async (requests: object[], action: string): Promise<BatchUpdateResponse> => {
+    const token = await this.getAccessToken();
+    const url = this.buildSpreadsheetUrl(':batchUpdate');
+
+    console.log('Sending request to:', url);
+    console.log('Requests:', JSON.stringify(requests, null, 2));
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ requests })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${action} error response:`, errorText);
+      throw new BackendHttpError(`Failed to ${action.toLowerCase()}: ${response.status} - ${errorText}`, response.status);
+    }
+
+    const result: BatchUpdateResponse = await response.json();
+    console.log(`${action} success:`, result);
+    return result;
+  }
+
+  private appendRows = async (
+    values: string[][],
+    action: string,
+    sheetName: string = this.getSheetName()
+  ): Promise<void> => {
+    const token = await this.getAccessToken();
+    const url = `${this.buildApiUrl(`${quoteSheetName(sheetName)}!A:${LAST_COLUMN}`)}:append?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`;
+
+    console.log('Sending request to:', url);
+    console.log('Appending rows:', values);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ values })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${action} error response:`, errorText);
+      throw new BackendHttpError(`Failed to ${action.toLowerCase()}: ${response.status} - ${errorText}`, response.status);
+    }
+
+    const result = await response.json();
+    console.log(`${action} success:`, result);
+  }
+
+  private fetchRows = async (): Promise<string[][]> => {
+    const sheetName = this.getSheetName();
+    const range = `${quoteSheetName(sheetName)}!A:${LAST_COLUMN}`;
+    const url = this.buildApiUrl(range);
+    const token = await this.getAccessToken();
+
+    console.log('Fetching from URL:', url);
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
       }
+    });
+
+    console.log('Response status:', response.status);
 
-      if (data.values.length === 1) {
-        console.log('Only header row found');
-        return [];
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('API Error Response:', errorText);
+
+      if (response.status === 403) {
+        throw new Error('Access denied. Please ensure your service account or Google account has access to the sheet.');
+      }
+      if (response.status === 404) {
+        throw new Error('Sheet not found. Please check your Sheet ID.');
       }
+      throw new BackendHttpError(`HTTP error! status: ${response.status} - ${errorText}`, response.status);
+    }
 
-      const items: GroceryItem[] = [];
-      
-      for (let i = 1; i < data.values.length; i++) {
-        const row = data.values[i];
-        console.log(`Processing row ${i}:`, row);
-        
-        if (!row || row.length === 0 || !row[0] || row[0].trim() === '') {
-          continue;
-        }
-        
-        const itemName = row[0]?.trim() || '';
-        const quantity = row[1]?.trim() || '';
-        const category = row[2]?.trim() || '';
-        
-        if (itemName && itemName.toLowerCase() !== 'item') {
-          items.push({
-            id: `item_${i}_${itemName}`,
-            name: itemName,
-            quantity,
-            category,
-          });
+    const data: GoogleSheetsResponse = await response.json();
+    console.log('API Response data:', data);
+    return data.values || [];
+  }
+
+  private writeRanges = async (data: ValueRange[], action: string): Promise<void> => {
+    const token = await this.getAccessToken();
+    const url = this.buildBatchUpdateUrl();
+
+    const requestBody = {
+      valueInputOption: 'USER_ENTERED',
+      data,
+    };
+
+    console.log('Sending request to:', url);
+    console.log('Request body:', JSON.stringify(requestBody, null, 2));
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${action} error response:`, errorText);
+      throw new BackendHttpError(`Failed to ${action.toLowerCase()}: ${response.status} - ${errorText}`, response.status);
+    }
+
+    const result = await response.json();
+    console.log(`${action} success:`, result);
+  }
+
+  // A new revision for a list tab, to write alongside or after each change
+  // to its rows
+  private revisionRange = (sheetName: string = this.getSheetName()): ValueRange => ({
+    range: `${quoteSheetName(sheetName)}!${REVISION_RANGE}`,
+    values: [[createItemId(), REVISION_FORMULA]],
+  });
+
+  private bumpRevision = (): Promise<void> =>
+    this.writeRanges([this.revisionRange()], 'Update list revision');
+
+  // Makes the change `prepare` works out from the current rows if a fresh
+  // read still matches the rows it started from, and otherwise starts again.
+  // The Sheets API has no conditional writes, so this only narrows the race:
+  // a change that lands between the re-read and the write is overwritten.
+  private writeAfterRecheck = async (prepare: () => Promise<RowsChange>, action: string): Promise<void> => {
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const { rows, data, deleteRowNumbers } = await prepare();
+      const latest = await this.fetchRows();
+      if (JSON.stringify(latest) === JSON.stringify(rows)) {
+        if (deleteRowNumbers) {
+          await this.deleteRows(deleteRowNumbers, action);
         }
+        await this.writeRanges([...(data ?? []), this.revisionRange()], action);
+        return;
       }
+      console.warn(`${action}: the sheet changed while preparing the write (attempt ${attempt})`);
+    }
+    throw new Error(`Failed to ${action.toLowerCase()}: the list kept changing on another device. Please try again.`);
+  }
+
+  // Returns the 1-based sheet row that currently holds the item, looked up
+  // by ID at write time rather than trusting the position from the last fetch.
+  private findRowNumber = (rows: string[][], itemId: string): number => {
+    const index = rows.findIndex((row, i) => i > 0 && isItemRow(row) && row[ID_INDEX]?.trim() === itemId);
+    if (index === -1) {
+      throw new Error('Item not found. It may have been changed on another device - please refresh.');
+    }
+    return index + 1;
+  }
+
+  // Writes IDs for rows added by Alexa or typed in by hand, which have none
+  // yet. Each ID is only written if, just before the write, its cell is
+  // still empty and the row still holds what was read, so a row that moved
+  // or was edited meanwhile is left for the next read. Returns the rows as
+  // stored afterwards, so a device that backfilled the same rows at the same
+  // moment ends up with the same IDs as this one.
+  private backfillIds = async (rows: string[][]): Promise<string[][]> => {
+    const sheetName = this.getSheetName();
+    const latest = await this.fetchRows();
+    const backfill: ValueRange[] = [];
+
+    rows.forEach((row, i) => {
+      const current = latest[i];
+      if (
+        i > 0 && isItemRow(row) && !row[ID_INDEX]?.trim() &&
+        isItemRow(current) && !current[ID_INDEX]?.trim() &&
+        sameItemContents(rowToItem(current, ''), rowToItem(row, ''))
+      ) {
+        backfill.push({ range: `${quoteSheetName(sheetName)}!${ID_COLUMN}${i + 1}`, values: [[createItemId()]] });
+      }
+    });
+
+    if (backfill.length === 0) {
+      return latest;
+    }
+
+    console.log(`Backfilling IDs for ${backfill.length} rows`);
+    if (latest[0]?.[ID_INDEX]?.trim() !== ID_HEADER) {
+      backfill.push({ range: `${quoteSheetName(sheetName)}!${ID_COLUMN}1`, values: [[ID_HEADER]] });
+    }
+    await this.writeRanges([...backfill, this.revisionRange()], 'Backfill item IDs');
+    return this.fetchRows();
+  }
+
+  // Reads the sheet, backfilling IDs for rows that lack one
+  private readSheet = async (): Promise<{ rows: string[][]; items: GroceryItem[] }> => {
+    const sheetName = this.getSheetName();
+    let rows = await this.fetchRows();
+
+    if (rows.length === 0) {
+      console.log('No data found');
+      return { rows, items: [] };
+    }
+
+    if (rows.some((row, i) => i > 0 && isItemRow(row) && !row[ID_INDEX]?.trim())) {
+      rows = await this.backfillIds(rows);
+    }
+
+    const items: GroceryItem[] = [];
+    for (let i = 1; i < rows.length; i++) {
+      const row = rows[i];
+      console.log(`Processing row ${i}:`, row);
+
+      if (!isItemRow(row)) {
+        continue;
+      }
+
+      // A row that changed while its ID was being written gets one on the
+      // next read; until then it can be shown but not found again
+      items.push(rowToItem(row, row[ID_INDEX]?.trim() || createItemId()));
+    }
+
+    // Sheets from before prices were tracked have no header for the column
+    if (items.some(item => item.price !== undefined) && rows[0]?.[PRICE_INDEX]?.trim() !== PRICE_HEADER) {
+      await this.writeRanges([
+        { range: `${quoteSheetName(sheetName)}!${PRICE_COLUMN}1`, values: [[PRICE_HEADER]] }
+      ], 'Write price header');
+    }
+
+    return { rows, items };
+  }
 
+  getGroceryItems = async (): Promise<GroceryItem[]> => {
+    try {
+      console.log('Starting getGroceryItems...');
+      const { items } = await this.readSheet();
       console.log('Processed items:', items);
       return items;
     } catch (error) {
@@ -246,52 +631,81 @@ class GoogleSheetsService {
     }
   }
 
+  getRevision = async (): Promise<string | null> => {
+    const token = await this.getAccessToken();
+    const url = this.buildApiUrl(`${quoteSheetName(this.getSheetName())}!${REVISION_RANGE}`);
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Revision lookup error response:', errorText);
+      throw new BackendHttpError(`Failed to check for changes: ${response.status} - ${errorText}`, response.status);
+    }
+
+    const data: GoogleSheetsResponse = await response.json();
+    const [writeToken, fingerprint] = data.values?.[0] ?? [];
+    // Without the formula, changes made outside the app would go unseen
+    return fingerprint ? `${writeToken || ''}:${fingerprint}` : null;
+  }
+
   addGroceryItem = async (item: GroceryItem): Promise<void> => {
     try {
       console.log('Adding item:', item);
+      // Appending lets the Sheets API find the end of the table itself, so
+      // rows added elsewhere since our last fetch are never overwritten.
+      await this.appendRows([itemToRow({ ...item, id: item.id || createItemId() })], 'Add item');
+      await this.bumpRevision();
+    } catch (error) {
+      console.error('Error adding grocery item:', error);
+      throw error;
+    }
+  }
+
+  addGroceryItems = async (items: GroceryItem[]): Promise<void> => {
+    try {
+      console.log('Adding items:', items);
+      await this.appendRows(items.map(item => itemToRow({ ...item, id: item.id || createItemId() })), 'Add items');
+      await this.bumpRevision();
+    } catch (error) {
+      console.error('Error adding grocery items:', error);
+      throw error;
+    }
+  }
+
+  updateGroceryItem = async (item: GroceryItem, previous?: GroceryItem): Promise<void> => {
+    try {
+      console.log('Updating item:', item);
       const sheetName = this.getSheetName();
-      const token = await this.getAccessToken();
-      const url = this.buildBatchUpdateUrl();
-      
-      // Get current data to find the next empty row
-      const currentItems = await this.getGroceryItems();
-      const nextRow = currentItems.length + 2; // +1 for header, +1 for next empty row
-      
-      const range = `${sheetName}!A${nextRow}:D${nextRow}`;
-      
-      const requestBody = {
-        valueInputOption: 'USER_ENTERED',
-        data: [
-          {
-            range: range,
-            values: [[item.name, item.quantity || '', item.category || '', '']]
-          }
-        ]
-      };
 
-      console.log('Sending request to:', url);
-      console.log('Request body:', JSON.stringify(requestBody, null, 2));
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Add item error response:', errorText);
-        throw new Error(`Failed to add item: ${response.status} - ${errorText}`);
-      }
+      await this.writeAfterRecheck(async () => {
+        const rows = await this.fetchRows();
+        if (previous) {
+          const index = rows.findIndex((row, i) => i > 0 && isItemRow(row) && row[ID_INDEX]?.trim() === item.id);
+          if (index === -1) {
+            throw new ConcurrentEditError(`"${item.name}" was removed on another device`, null);
+          }
+          const stored = rowToItem(rows[index], item.id);
+          if (!sameItemContents(stored, previous) && !sameItemContents(stored, item)) {
+            throw new ConcurrentEditError(`"${stored.name}" was changed on another device`, stored);
+          }
+        }
 
-      const result = await response.json();
-      console.log('Add item success:', result);
-      
+        const rowNumber = this.findRowNumber(rows, item.id);
+        return {
+          rows,
+          data: [{
+            range: `${quoteSheetName(sheetName)}!A${rowNumber}:${LAST_COLUMN}${rowNumber}`,
+            values: [itemToRow(item)]
+          }],
+        };
+      }, 'Update item');
     } catch (error) {
-      console.error('Error adding grocery item:', error);
+      console.error('Error updating grocery item:', error);
       throw error;
     }
   }
@@ -299,108 +713,174 @@ class GoogleSheetsService {
   deleteGroceryItem = async (itemId: string): Promise<void> => {
     try {
       console.log('Deleting item with ID:', itemId);
-      
-      // Parse the row number from the item ID
-      const rowMatch = itemId.match(/item_(\d+)_/);
-      if (!rowMatch) {
-        throw new Error('Invalid item ID format');
-      }
-      
-      const rowIndex = parseInt(rowMatch[1]) + 1; // +1 because we start from row 1, not 0
+      await this.writeAfterRecheck(async () => {
+        const rows = await this.fetchRows();
+        return { rows, deleteRowNumbers: [this.findRowNumber(rows, itemId)] };
+      }, 'Delete item');
+    } catch (error) {
+      console.error('Error deleting grocery item:', error);
+      throw error;
+    }
+  }
+
+  archiveGroceryItems = async (items: GroceryItem[]): Promise<void> => {
+    try {
+      console.log('Archiving items:', items);
+      // Check every item is still there before copying any of them
+      const rows = await this.fetchRows();
+      items.forEach(item => this.findRowNumber(rows, item.id));
+      const archivedAt = new Date().toISOString();
+
+      await this.ensureArchiveTab();
+      await this.appendRows(
+        items.map(item => [
+          item.name,
+          item.quantity || '',
+          item.category || '',
+          archivedAt,
+          item.price !== undefined ? String(item.price) : '',
+        ]),
+        'Archive items',
+        ARCHIVE_SHEET_NAME
+      );
+      // Creating the tab and appending take several round trips, in which
+      // rows above these may have gone; find them again by ID, and stop
+      // rather than delete a row that is not one of them
+      await this.writeAfterRecheck(async () => {
+        const latest = await this.fetchRows();
+        return { rows: latest, deleteRowNumbers: items.map(item => this.findRowNumber(latest, item.id)) };
+      }, 'Remove archived items');
+    } catch (error) {
+      console.error('Error archiving grocery items:', error);
+      throw error;
+    }
+  }
+
+  reorderGroceryItems = async (reorderedItems: GroceryItem[], baseIds?: string[]): Promise<void> => {
+    try {
+      console.log('Reordering items:', reorderedItems);
       const sheetName = this.getSheetName();
-      const token = await this.getAccessToken();
-      const url = this.buildBatchUpdateUrl();
-      
-      const range = `${sheetName}!A${rowIndex}:D${rowIndex}`;
-      
-      const requestBody = {
-        valueInputOption: 'USER_ENTERED',
-        data: [
-          {
-            range: range,
-            values: [['', '', '', '']] // Clear the row
-          }
-        ]
-      };
 
-      console.log('Sending delete request to:', url);
-      console.log('Clearing range:', range);
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Delete item error response:', errorText);
-        throw new Error(`Failed to delete item: ${response.status} - ${errorText}`);
+      // Re-read the sheet so rows changed since the client's fetch keep their
+      // current contents; only the order comes from the client. With a base
+      // order only the client's moves are replayed, so rows Alexa added or
+      // another phone moved keep their places.
+      await this.writeAfterRecheck(async () => {
+        const { rows, items: currentItems } = await this.readSheet();
+        const currentById = new Map(currentItems.map(item => [item.id, item]));
+        const reorderedIds = reorderedItems.map(item => item.id);
+        const order = baseIds
+          ? mergeItemOrder(baseIds, reorderedIds, currentItems.map(item => item.id))
+          : [
+            ...reorderedIds.filter(id => currentById.has(id)),
+            ...currentItems.map(item => item.id).filter(id => !reorderedIds.includes(id)),
+          ];
+        const values = order.map(id => itemToRow(currentById.get(id)));
+
+        // Blank out any leftover rows below the rewritten block
+        while (values.length < rows.length - 1) {
+          values.push(LIST_HEADER.map(() => ''));
+        }
+
+        const range = `${quoteSheetName(sheetName)}!A2:${LAST_COLUMN}${values.length + 1}`;
+        console.log('Reordering range:', range);
+        return { rows, data: [{ range, values }] };
+      }, 'Reorder items');
+    } catch (error) {
+      console.error('Error reordering grocery items:', error);
+      throw error;
+    }
+  }
+
+  getActiveList = (): string => {
+    return getProfile(this.profileId)?.sheetName || DEFAULT_SHEET_NAME;
+  }
+
+  setActiveList = (name: string): void => {
+    updateProfile(this.profileId, { sheetName: name });
+  }
+
+  forList = (name: string): GroceryListBackend => {
+    let service = this.listServices.get(name);
+    if (!service) {
+      service = new GoogleSheetsService(this.profileId, name);
+      this.listServices.set(name, service);
+    }
+    return service;
+  }
+
+  // Every tab except the archive is a list
+  getListNames = async (): Promise<string[]> => {
+    try {
+      const titles = await this.loadTabs();
+      return titles.filter(title => title !== ARCHIVE_SHEET_NAME);
+    } catch (error) {
+      console.error('Error fetching lists:', error);
+      throw error;
+    }
+  }
+
+  createList = async (name: string): Promise<void> => {
+    try {
+      console.log('Creating list:', name);
+      if (await this.findTabId(name) !== undefined) {
+        throw new Error(`A list called "${name}" already exists.`);
       }
 
-      const result = await response.json();
-      console.log('Delete item success:', result);
-      
+      const result = await this.batchUpdateSpreadsheet([
+        { addSheet: { properties: { title: name } } }
+      ], 'Create list');
+      const properties = result.replies?.[0]?.addSheet?.properties;
+      if (properties) {
+        this.tabIds.set(`${this.getSheetId()}/${properties.title}`, properties.sheetId);
+      }
+      await this.writeRanges([
+        { range: `${quoteSheetName(name)}!A1:${LAST_COLUMN}1`, values: [LIST_HEADER] },
+        this.revisionRange(name),
+      ], 'Write list header');
     } catch (error) {
-      console.error('Error deleting grocery item:', error);
+      console.error('Error creating list:', error);
       throw error;
     }
   }
 
-  reorderGroceryItems = async (reorderedItems: GroceryItem[]): Promise<void> => {
+  renameList = async (name: string, newName: string): Promise<void> => {
     try {
-      console.log('Reordering items:', reorderedItems);
-      const sheetName = this.getSheetName();
-      const token = await this.getAccessToken();
-      const url = this.buildBatchUpdateUrl();
-      
-      // Clear existing data (except header)
-      const clearRange = `${sheetName}!A2:D${reorderedItems.length + 1}`;
-      
-      // Prepare the new data
-      const values = reorderedItems.map(item => [
-        item.name,
-        item.quantity || '',
-        item.category || '',
-        ''
-      ]);
-      
-      const requestBody = {
-        valueInputOption: 'USER_ENTERED',
-        data: [
-          {
-            range: clearRange,
-            values: values
-          }
-        ]
-      };
+      console.log('Renaming list:', name, '->', newName);
+      const tabId = await this.findTabId(name);
+      if (tabId === undefined) {
+        throw new Error(`List "${name}" not found. It may have been changed on another device - please refresh.`);
+      }
+      if (await this.findTabId(newName) !== undefined) {
+        throw new Error(`A list called "${newName}" already exists.`);
+      }
+
+      await this.batchUpdateSpreadsheet([
+        { updateSheetProperties: { properties: { sheetId: tabId, title: newName }, fields: 'title' } }
+      ], 'Rename list');
+      this.tabIds.delete(`${this.getSheetId()}/${name}`);
+      this.tabIds.set(`${this.getSheetId()}/${newName}`, tabId);
+      if (this.getActiveList() === name) {
+        this.setActiveList(newName);
+      }
+    } catch (error) {
+      console.error('Error renaming list:', error);
+      throw error;
+    }
+  }
 
-      console.log('Sending reorder request to:', url);
-      console.log('Reordering range:', clearRange);
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Reorder items error response:', errorText);
-        throw new Error(`Failed to reorder items: ${response.status} - ${errorText}`);
+  deleteList = async (name: string): Promise<void> => {
+    try {
+      console.log('Deleting list:', name);
+      const tabId = await this.findTabId(name);
+      if (tabId === undefined) {
+        throw new Error(`List "${name}" not found. It may have been changed on another device - please refresh.`);
       }
 
-      const result = await response.json();
-      console.log('Reorder items success:', result);
-      
+      await this.batchUpdateSpreadsheet([{ deleteSheet: { sheetId: tabId } }], 'Delete list');
+      this.tabIds.delete(`${this.getSheetId()}/${name}`);
     } catch (error) {
-      console.error('Error reordering grocery items:', error);
+      console.error('Error deleting list:', error);
       throw error;
     }
   }
@@ -415,5 +895,3 @@ class GoogleSheetsService {
     }
   }
 }
-
-export const googleSheetsService = new GoogleSheetsService();
@@ -0,0 +1,85 @@
+export interface GroceryItem {
+  id: string;
+  name: string;
+  quantity?: string;
+  category?: string;
+  checked?: boolean;
+  // Price for one unit of the quantity, e.g. per kg for "2 kg"
+  price?: number;
+}
+
+// Everything the list UI needs from a storage backend. Google Sheets is the
+// primary implementation; the local backends let the app run without a
+// Google account or a network connection.
+export interface GroceryListBackend {
+  getGroceryItems: () => Promise<GroceryItem[]>;
+  addGroceryItem: (item: GroceryItem) => Promise<void>;
+  // Adds several items in a single write, e.g. a recipe's ingredients
+  addGroceryItems: (items: GroceryItem[]) => Promise<void>;
+  // With `previous`, the write only goes ahead if the stored item still
+  // matches it (or already matches `item`); otherwise ConcurrentEditError
+  updateGroceryItem: (item: GroceryItem, previous?: GroceryItem) => Promise<void>;
+  deleteGroceryItem: (itemId: string) => Promise<void>;
+  // With `baseIds`, the order the new one was made from, only the moves
+  // between the two are applied, so rows added or moved elsewhere since stay
+  // where they are
+  reorderGroceryItems: (reorderedItems: GroceryItem[], baseIds?: string[]) => Promise<void>;
+  // Moves items off the list into the backend's archive of cleared items
+  archiveGroceryItems: (items: GroceryItem[]) => Promise<void>;
+  testConnection: () => Promise<boolean>;
+  // A cheap marker that changes whenever the list may have, so polling can
+  // skip fetching a list nobody has touched. Null when it cannot be read.
+  getRevision?: () => Promise<string | null>;
+}
+
+// Backends that keep several named lists side by side, such as one tab per
+// list in a spreadsheet. The item methods above act on the active list.
+export interface NamedListBackend extends GroceryListBackend {
+  getListNames: () => Promise<string[]>;
+  getActiveList: () => string;
+  setActiveList: (name: string) => void;
+  createList: (name: string) => Promise<void>;
+  renameList: (name: string, newName: string) => Promise<void>;
+  deleteList: (name: string) => Promise<void>;
+  // A backend whose item methods always act on the given list, so queued
+  // changes keep going to the right list after the user switches away
+  forList: (name: string) => GroceryListBackend;
+}
+
+export const hasNamedLists = (backend: GroceryListBackend): backend is NamedListBackend =>
+  'getListNames' in backend;
+
+export type BackendType = 'googleSheets' | 'localStorage' | 'memory';
+
+export const createItemId = (): string => crypto.randomUUID();
+
+export const sameItemContents = (a: GroceryItem, b: GroceryItem): boolean =>
+  a.name === b.name &&
+  (a.quantity || '') === (b.quantity || '') &&
+  (a.category || '') === (b.category || '') &&
+  !!a.checked === !!b.checked &&
+  a.price === b.price;
+
+// A write found the item changed or removed by someone else since the
+// version the change was made against
+export class ConcurrentEditError extends Error {
+  constructor(
+    message: string,
+    // The item as it is stored now, or null when it was removed
+    readonly current: GroceryItem | null
+  ) {
+    super(message);
+    this.name = 'ConcurrentEditError';
+  }
+}
+
+// The backend answered a request with an error status
+export class BackendHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'BackendHttpError';
+  }
+}
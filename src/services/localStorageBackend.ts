@@ -0,0 +1,50 @@
+import type { GroceryItem } from './groceryListBackend';
+import { MemoryBackend, type ArchivedGroceryItem } from './memoryBackend';
+
+const STORAGE_KEY = 'localGroceryItems';
+const ARCHIVE_STORAGE_KEY = 'localGroceryArchive';
+
+// Stores the list in this device's localStorage so it survives reloads
+// without any account or network access. A key suffix keeps the lists of
+// different profiles apart.
+export class LocalStorageBackend extends MemoryBackend {
+  constructor(private readonly keySuffix: string = '') {
+    super();
+  }
+
+  private get storageKey(): string {
+    return this.keySuffix ? `${STORAGE_KEY}:${this.keySuffix}` : STORAGE_KEY;
+  }
+
+  private get archiveStorageKey(): string {
+    return this.keySuffix ? `${ARCHIVE_STORAGE_KEY}:${this.keySuffix}` : ARCHIVE_STORAGE_KEY;
+  }
+
+  protected load(): GroceryItem[] {
+    const stored = localStorage.getItem(this.storageKey);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error('Error parsing local grocery items:', error);
+      return [];
+    }
+  }
+
+  protected save(items: GroceryItem[]): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(items));
+  }
+
+  protected saveArchived(archived: ArchivedGroceryItem[]): void {
+    let existing: ArchivedGroceryItem[] = [];
+    try {
+      existing = JSON.parse(localStorage.getItem(this.archiveStorageKey) || '[]');
+    } catch (error) {
+      console.error('Error parsing local grocery archive:', error);
+    }
+    localStorage.setItem(this.archiveStorageKey, JSON.stringify([...existing, ...archived]));
+  }
+}
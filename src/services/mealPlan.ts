@@ -0,0 +1,159 @@
+import { addDays, format, startOfWeek } from 'date-fns';
+import { normalizeItemName } from '@/lib/itemNames';
+import {
+  formatQuantity,
+  parseQuantity,
+  scaleQuantity,
+  subtractQuantities,
+  sumQuantities,
+  type Quantity,
+} from '@/lib/quantity';
+import { findPantryItem, type PantryItem } from './pantry';
+import type { Recipe } from './recipes';
+import { profileScope, type ConnectionProfile } from './profiles';
+
+// Which recipes are planned for which days, and the shopping list that
+// follows from them. Kept on this device, separately for each profile.
+
+export interface PlannedMeal {
+  id: string;
+  // YYYY-MM-DD
+  date: string;
+  recipeId: string;
+  servings: number;
+}
+
+export interface GeneratedItem {
+  key: string;
+  name: string;
+  // Totals that could not be combined are joined, e.g. "500 g + 2 cans"
+  quantity: string;
+  recipes: string[];
+}
+
+export interface GeneratedList {
+  items: GeneratedItem[];
+  // Ingredients the pantry already covers
+  fromPantry: string[];
+}
+
+interface IngredientTotal {
+  name: string;
+  quantities: Quantity[];
+  // Quantities that could not be read ("a handful"), kept as written
+  unreadable: string[];
+  // Used somewhere without any quantity, like "salt"
+  unmeasured: boolean;
+  recipes: Set<string>;
+}
+
+const MEAL_PLAN_KEY = 'mealPlan';
+// An item with no quantity counts as one, as in the pantry
+const ONE: Quantity = { amount: 1, unit: '' };
+
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const weekDates = (date: Date): Date[] => {
+  const start = startOfWeek(date, { weekStartsOn: 1 });
+  return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+};
+
+export const loadMealPlan = (profile: ConnectionProfile): PlannedMeal[] => {
+  try {
+    return JSON.parse(localStorage.getItem(profileScope(profile, MEAL_PLAN_KEY)) || '[]');
+  } catch (error) {
+    console.error('Error parsing meal plan:', error);
+    return [];
+  }
+};
+
+export const saveMealPlan = (profile: ConnectionProfile, meals: PlannedMeal[]): void => {
+  localStorage.setItem(profileScope(profile, MEAL_PLAN_KEY), JSON.stringify(meals));
+};
+
+// Takes what the pantry holds off the summed totals. Those never convert into
+// one another, so the stock is used against at most one of them.
+const subtractPantry = (total: IngredientTotal, pantryItem: PantryItem | undefined): IngredientTotal => {
+  if (!pantryItem) {
+    return total;
+  }
+
+  const stock = pantryItem.quantity.trim() ? parseQuantity(pantryItem.quantity) : ONE;
+  const quantities = total.quantities.flatMap(quantity => {
+    const left = stock ? subtractQuantities(quantity, stock) : null;
+    if (!left) {
+      return [quantity];
+    }
+    return left.amount > 0 ? [left] : [];
+  });
+
+  // Having any at all covers ingredients used without a measure, like salt
+  return { ...total, quantities, unmeasured: false };
+};
+
+// Adds up the ingredients of the planned meals, scaled to each meal's
+// servings, merges the same ingredient across recipes (converting units
+// where possible) and leaves out what the pantry already has.
+export const generateShoppingList = (
+  meals: PlannedMeal[],
+  recipes: Recipe[],
+  pantry: PantryItem[]
+): GeneratedList => {
+  const totals = new Map<string, IngredientTotal>();
+
+  meals.forEach(meal => {
+    const recipe = recipes.find(candidate => candidate.id === meal.recipeId);
+    if (!recipe) {
+      return;
+    }
+    const factor = recipe.servings > 0 ? meal.servings / recipe.servings : 1;
+
+    recipe.ingredients.forEach(ingredient => {
+      const key = normalizeItemName(ingredient.name);
+      if (!key) {
+        return;
+      }
+      const total = totals.get(key) ?? {
+        name: ingredient.name,
+        quantities: [],
+        unreadable: [],
+        unmeasured: false,
+        recipes: new Set<string>(),
+      };
+      const quantity = parseQuantity(ingredient.quantity);
+      if (quantity) {
+        // Scaled per meal; counts are only rounded up after adding them all
+        total.quantities.push({ amount: quantity.amount * factor, unit: quantity.unit });
+      } else if (ingredient.quantity.trim()) {
+        total.unreadable.push(ingredient.quantity.trim());
+      } else {
+        total.unmeasured = true;
+      }
+      total.recipes.add(recipe.name);
+      totals.set(key, total);
+    });
+  });
+
+  const items: GeneratedItem[] = [];
+  const fromPantry: string[] = [];
+  totals.forEach((total, key) => {
+    const remaining = subtractPantry(
+      { ...total, quantities: sumQuantities(total.quantities) },
+      findPantryItem(pantry, total.name)
+    );
+    const texts = [
+      ...remaining.quantities.map(quantity => formatQuantity(scaleQuantity(quantity, 1))),
+      ...remaining.unreadable,
+    ];
+    if (texts.length === 0 && !remaining.unmeasured) {
+      fromPantry.push(total.name);
+      return;
+    }
+    items.push({ key, name: total.name, quantity: texts.join(' + '), recipes: [...total.recipes] });
+  });
+
+  return {
+    items: items.sort((a, b) => a.name.localeCompare(b.name)),
+    fromPantry: fromPantry.sort((a, b) => a.localeCompare(b)),
+  };
+};
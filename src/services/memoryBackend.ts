@@ -0,0 +1,103 @@
+import { mergeItemOrder } from '@/lib/orderMerge';
+import {
+  ConcurrentEditError,
+  createItemId,
+  sameItemContents,
+  type GroceryItem,
+  type GroceryListBackend,
+} from './groceryListBackend';
+
+export interface ArchivedGroceryItem extends GroceryItem {
+  archivedAt: string;
+}
+
+// Keeps the list in memory only. Useful for trying the app out and as a
+// fake when exercising the UI; everything is lost on reload.
+export class MemoryBackend implements GroceryListBackend {
+  private items: GroceryItem[];
+  private archived: ArchivedGroceryItem[] = [];
+
+  constructor(initialItems: GroceryItem[] = []) {
+    this.items = initialItems.map(item => ({ ...item }));
+  }
+
+  protected load(): GroceryItem[] {
+    return this.items;
+  }
+
+  protected save(items: GroceryItem[]): void {
+    this.items = items;
+  }
+
+  protected saveArchived(archived: ArchivedGroceryItem[]): void {
+    this.archived = [...this.archived, ...archived];
+  }
+
+  private findIndex = (items: GroceryItem[], itemId: string): number => {
+    const index = items.findIndex(item => item.id === itemId);
+    if (index === -1) {
+      throw new Error('Item not found. It may have been changed on another device - please refresh.');
+    }
+    return index;
+  }
+
+  getGroceryItems = async (): Promise<GroceryItem[]> => {
+    return this.load().map(item => ({ ...item }));
+  }
+
+  addGroceryItem = async (item: GroceryItem): Promise<void> => {
+    this.save([...this.load(), { ...item, id: item.id || createItemId() }]);
+  }
+
+  addGroceryItems = async (items: GroceryItem[]): Promise<void> => {
+    this.save([...this.load(), ...items.map(item => ({ ...item, id: item.id || createItemId() }))]);
+  }
+
+  updateGroceryItem = async (item: GroceryItem, previous?: GroceryItem): Promise<void> => {
+    const items = [...this.load()];
+    const index = items.findIndex(existing => existing.id === item.id);
+    if (previous && index === -1) {
+      throw new ConcurrentEditError(`"${item.name}" was removed on another device`, null);
+    }
+    if (previous && !sameItemContents(items[index], previous) && !sameItemContents(items[index], item)) {
+      throw new ConcurrentEditError(`"${items[index].name}" was changed on another device`, { ...items[index] });
+    }
+    items[this.findIndex(items, item.id)] = { ...item };
+    this.save(items);
+  }
+
+  deleteGroceryItem = async (itemId: string): Promise<void> => {
+    const items = [...this.load()];
+    items.splice(this.findIndex(items, itemId), 1);
+    this.save(items);
+  }
+
+  reorderGroceryItems = async (reorderedItems: GroceryItem[], baseIds?: string[]): Promise<void> => {
+    const currentItems = this.load();
+    const currentById = new Map(currentItems.map(item => [item.id, item]));
+    if (baseIds) {
+      const order = mergeItemOrder(baseIds, reorderedItems.map(item => item.id), currentItems.map(item => item.id));
+      this.save(order.map(id => currentById.get(id)));
+      return;
+    }
+    const ordered = reorderedItems
+      .filter(item => currentById.has(item.id))
+      .map(item => currentById.get(item.id));
+    const orderedIds = new Set(ordered.map(item => item.id));
+    this.save([...ordered, ...currentItems.filter(item => !orderedIds.has(item.id))]);
+  }
+
+  archiveGroceryItems = async (items: GroceryItem[]): Promise<void> => {
+    const ids = new Set(items.map(item => item.id));
+    const currentItems = this.load();
+    items.forEach(item => this.findIndex(currentItems, item.id));
+
+    const archivedAt = new Date().toISOString();
+    this.saveArchived(currentItems.filter(item => ids.has(item.id)).map(item => ({ ...item, archivedAt })));
+    this.save(currentItems.filter(item => !ids.has(item.id)));
+  }
+
+  testConnection = async (): Promise<boolean> => {
+    return true;
+  }
+}
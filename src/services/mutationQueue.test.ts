@@ -0,0 +1,72 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { GroceryItem } from './groceryListBackend';
+import { MemoryBackend } from './memoryBackend';
+import { mergeItemEdits, mutationQueue } from './mutationQueue';
+
+const base: GroceryItem = { id: '1', name: 'milk', quantity: '1', category: 'Dairy', checked: false };
+
+describe('mergeItemEdits', () => {
+  it('takes each field from the side that changed it', () => {
+    const local = { ...base, quantity: '2' };
+    const remote = { ...base, checked: true };
+
+    expect(mergeItemEdits(base, local, remote)).toEqual({ ...base, quantity: '2', checked: true });
+  });
+
+  it('accepts both sides making the same change', () => {
+    const changed = { ...base, quantity: '2' };
+
+    expect(mergeItemEdits(base, changed, { ...changed })).toEqual(changed);
+  });
+
+  it('gives up when both sides changed the same field', () => {
+    expect(mergeItemEdits(base, { ...base, quantity: '2' }, { ...base, quantity: '3' })).toBeNull();
+  });
+});
+
+describe('mutationQueue.flush', () => {
+  beforeAll(() => {
+    // Node has no navigator; the queue only sends while online
+    if (typeof navigator === 'undefined') {
+      Object.defineProperty(globalThis, 'navigator', { value: { onLine: true }, configurable: true });
+    }
+    // There is no IndexedDB to keep the outbox in here, which the queue logs
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('rebases an edit onto one made elsewhere to a different field', async () => {
+    const backend = new MemoryBackend([{ ...base, checked: true }]);
+    mutationQueue.enqueue('rebase', { type: 'update', item: { ...base, quantity: '2' }, previous: base });
+
+    const result = await mutationQueue.flush('rebase', backend);
+
+    expect(result).toMatchObject({ applied: 1, conflicts: [] });
+    expect(await backend.getGroceryItems()).toEqual([{ ...base, quantity: '2', checked: true }]);
+  });
+
+  it('reports an edit to a field that was changed elsewhere', async () => {
+    const remote = { ...base, quantity: '3' };
+    const backend = new MemoryBackend([remote]);
+    mutationQueue.enqueue('conflict', { type: 'update', item: { ...base, quantity: '2' }, previous: base });
+
+    const result = await mutationQueue.flush('conflict', backend);
+
+    expect(result.applied).toBe(0);
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ reason: '"milk" was changed on another device', current: remote }),
+    ]);
+    expect(await backend.getGroceryItems()).toEqual([remote]);
+  });
+
+  it('skips a delete of an item removed elsewhere', async () => {
+    const backend = new MemoryBackend([]);
+    mutationQueue.enqueue('delete', { type: 'delete', itemId: base.id });
+
+    const result = await mutationQueue.flush('delete', backend);
+
+    expect(result).toEqual({ applied: 0, conflicts: [], failed: [] });
+    expect(mutationQueue.getEntries('delete')).toEqual([]);
+  });
+});
@@ -0,0 +1,414 @@
+import { idbDelete, idbGetAll, idbPut } from '@/lib/idb';
+import { mergeItemOrder } from '@/lib/orderMerge';
+import {
+  BackendHttpError,
+  ConcurrentEditError,
+  createItemId,
+  sameItemContents,
+  type GroceryItem,
+  type GroceryListBackend,
+} from './groceryListBackend';
+
+export type PendingMutation =
+  | { type: 'add'; item: GroceryItem }
+  | { type: 'addMany'; items: GroceryItem[] }
+  | { type: 'update'; item: GroceryItem; previous: GroceryItem }
+  | { type: 'delete'; itemId: string }
+  // baseIds is the order the user started from; entries queued before it
+  // was recorded have none
+  | { type: 'reorder'; itemIds: string[]; baseIds?: string[] }
+  | { type: 'archive'; items: GroceryItem[] };
+
+export interface OutboxEntry {
+  id: string;
+  // Which list the change belongs to, so changes made against one backend
+  // are never replayed against another.
+  scope: string;
+  seq: number;
+  mutation: PendingMutation;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+  // Sends in a row that failed for a passing reason (no connection, a server
+  // error or a rate limit); these back off too but do not count towards
+  // giving up
+  networkFailures?: number;
+}
+
+export interface MutationConflict {
+  entry: OutboxEntry;
+  reason: string;
+  // For updates, the item as it is stored now, or null when it was removed
+  current?: GroceryItem | null;
+}
+
+export interface FlushResult {
+  applied: number;
+  conflicts: MutationConflict[];
+  failed: OutboxEntry[];
+}
+
+const STORE_NAME = 'outbox';
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+const retryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+
+// fetch() rejects with a TypeError when the request never reaches the server.
+// A server error or rate limit is as temporary, so those changes wait it out
+// too rather than being given up on.
+const isTransientError = (error: unknown): boolean =>
+  !navigator.onLine ||
+  error instanceof TypeError ||
+  (error instanceof BackendHttpError && (error.status >= 500 || error.status === 429));
+
+const MERGED_FIELDS = ['name', 'quantity', 'category', 'checked', 'price'] as const;
+
+const fieldValue = (item: GroceryItem, field: typeof MERGED_FIELDS[number]): string =>
+  field === 'checked' ? String(!!item.checked) : String(item[field] ?? '');
+
+// Three-way merge of an edit made against `base` with one made elsewhere:
+// each field takes whichever side changed it. Returns null when both sides
+// changed the same field to different values.
+export const mergeItemEdits = (base: GroceryItem, local: GroceryItem, remote: GroceryItem): GroceryItem | null => {
+  const merged: GroceryItem = { ...remote };
+  for (const field of MERGED_FIELDS) {
+    const baseValue = fieldValue(base, field);
+    const localValue = fieldValue(local, field);
+    const remoteValue = fieldValue(remote, field);
+    if (localValue === baseValue || localValue === remoteValue) {
+      continue;
+    }
+    if (remoteValue !== baseValue) {
+      return null;
+    }
+    Object.assign(merged, { [field]: local[field] });
+  }
+  return merged;
+};
+
+// Applies a mutation to a list of items the same way the backends do, so the
+// UI can show queued changes before they reach the server.
+export const applyMutation = (items: GroceryItem[], mutation: PendingMutation): GroceryItem[] => {
+  switch (mutation.type) {
+    case 'add':
+      return items.some(item => item.id === mutation.item.id) ? items : [...items, mutation.item];
+    case 'addMany':
+      return [...items, ...mutation.items.filter(added => !items.some(item => item.id === added.id))];
+    case 'update':
+      return items.map(item => (item.id === mutation.item.id ? mutation.item : item));
+    case 'delete':
+      return items.filter(item => item.id !== mutation.itemId);
+    case 'reorder': {
+      const byId = new Map(items.map(item => [item.id, item]));
+      if (mutation.baseIds) {
+        return mergeItemOrder(mutation.baseIds, mutation.itemIds, items.map(item => item.id)).map(id => byId.get(id));
+      }
+      const ordered = mutation.itemIds.filter(id => byId.has(id)).map(id => byId.get(id));
+      const orderedIds = new Set(mutation.itemIds);
+      return [...ordered, ...items.filter(item => !orderedIds.has(item.id))];
+    }
+    case 'archive': {
+      const archivedIds = new Set(mutation.items.map(item => item.id));
+      return items.filter(item => !archivedIds.has(item.id));
+    }
+  }
+};
+
+export const applyPendingMutations = (items: GroceryItem[], entries: OutboxEntry[]): GroceryItem[] =>
+  entries.reduce((result, entry) => applyMutation(result, entry.mutation), items);
+
+// Rebases an update made against an older version of the item onto the
+// current one, when the two edits touched different fields
+const rebaseMutation = (mutation: PendingMutation, current: GroceryItem[]): PendingMutation => {
+  if (mutation.type !== 'update') {
+    return mutation;
+  }
+  const existing = current.find(item => item.id === mutation.item.id);
+  if (!existing || sameItemContents(existing, mutation.previous) || sameItemContents(existing, mutation.item)) {
+    return mutation;
+  }
+  const merged = mergeItemEdits(mutation.previous, mutation.item, existing);
+  return merged ? { type: 'update', item: merged, previous: existing } : mutation;
+};
+
+// Checks a queued mutation against the server's current items. Returns
+// 'skip' when the change is already reflected, a reason string when it can
+// no longer be applied, or null when it is safe to send.
+const detectConflict = (mutation: PendingMutation, current: GroceryItem[]): 'skip' | string | null => {
+  switch (mutation.type) {
+    case 'add':
+      return current.some(item => item.id === mutation.item.id) ? 'skip' : null;
+    case 'addMany':
+      return mutation.items.every(added => current.some(item => item.id === added.id)) ? 'skip' : null;
+    case 'update': {
+      const existing = current.find(item => item.id === mutation.item.id);
+      if (!existing) {
+        return `"${mutation.item.name}" was removed on another device`;
+      }
+      if (!sameItemContents(existing, mutation.previous) && !sameItemContents(existing, mutation.item)) {
+        return `"${existing.name}" was changed on another device`;
+      }
+      return null;
+    }
+    case 'delete':
+      return current.some(item => item.id === mutation.itemId) ? null : 'skip';
+    case 'reorder':
+      return null;
+    case 'archive':
+      return mutation.items.some(item => current.some(existing => existing.id === item.id)) ? null : 'skip';
+  }
+};
+
+const sendMutation = async (backend: GroceryListBackend, mutation: PendingMutation, current: GroceryItem[]) => {
+  switch (mutation.type) {
+    case 'add':
+      return backend.addGroceryItem(mutation.item);
+    case 'addMany':
+      // Only the items that did not make it last time, if a retry got this far before
+      return backend.addGroceryItems(
+        mutation.items.filter(added => !current.some(item => item.id === added.id))
+      );
+    case 'update':
+      return backend.updateGroceryItem(mutation.item, mutation.previous);
+    case 'delete':
+      return backend.deleteGroceryItem(mutation.itemId);
+    case 'reorder':
+      // The backend replays the moves against the sheet as it is at write time
+      return backend.reorderGroceryItems(applyMutation(current, mutation), current.map(item => item.id));
+    case 'archive':
+      // Items removed elsewhere in the meantime are simply left out
+      return backend.archiveGroceryItems(
+        current.filter(item => mutation.items.some(archived => archived.id === item.id))
+      );
+  }
+};
+
+type Listener = () => void;
+
+// Persistent outbox of list changes. Every change is recorded here first and
+// replayed in order against the backend, so the list keeps working while the
+// device is offline.
+class MutationQueue {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<Listener>();
+  private flushing = new Map<string, Promise<FlushResult>>();
+  private scoped = new Map<string, { source: OutboxEntry[]; entries: OutboxEntry[] }>();
+  private lastSeq = 0;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.load();
+  }
+
+  private load = async (): Promise<void> => {
+    try {
+      const stored = await idbGetAll<OutboxEntry>(STORE_NAME);
+      const knownIds = new Set(this.entries.map(entry => entry.id));
+      this.entries = [...stored.filter(entry => !knownIds.has(entry.id)), ...this.entries]
+        .sort((a, b) => a.seq - b.seq);
+      this.lastSeq = Math.max(this.lastSeq, ...this.entries.map(entry => entry.seq));
+      console.log(`Loaded ${stored.length} pending changes from outbox`);
+      this.notify();
+    } catch (error) {
+      console.error('Outbox unavailable, pending changes will not survive a reload:', error);
+    }
+  }
+
+  private persist = (entry: OutboxEntry): void => {
+    idbPut(STORE_NAME, entry).catch(error => console.error('Error saving outbox entry:', error));
+  }
+
+  private remove = (entry: OutboxEntry): void => {
+    this.entries = this.entries.filter(existing => existing.id !== entry.id);
+    idbDelete(STORE_NAME, entry.id).catch(error => console.error('Error removing outbox entry:', error));
+  }
+
+  // Backs off the first entry of a scope after a failure that is not the
+  // entry's fault (no connection, the server is down or busy, or the current
+  // items could not be read),
+  // so the retry timer wakes up even while navigator.onLine stays true
+  private deferFirst = (scope: string, error: unknown): void => {
+    const entry = this.getEntries(scope)[0];
+    if (!entry) {
+      return;
+    }
+    const networkFailures = (entry.networkFailures ?? 0) + 1;
+    const updated: OutboxEntry = {
+      ...entry,
+      networkFailures,
+      nextAttemptAt: Date.now() + retryDelay(networkFailures),
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+    this.entries = this.entries.map(existing => (existing.id === entry.id ? updated : existing));
+    this.persist(updated);
+  }
+
+  private notify = (): void => {
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Returns the same array until the queue changes, as useSyncExternalStore expects
+  getEntries = (scope: string): OutboxEntry[] => {
+    const cached = this.scoped.get(scope);
+    if (cached?.source === this.entries) {
+      return cached.entries;
+    }
+    const entries = this.entries.filter(entry => entry.scope === scope);
+    this.scoped.set(scope, { source: this.entries, entries });
+    return entries;
+  }
+
+  enqueue = (scope: string, mutation: PendingMutation): OutboxEntry => {
+    this.lastSeq = Math.max(this.lastSeq + 1, Date.now());
+    const entry: OutboxEntry = {
+      id: createItemId(),
+      scope,
+      seq: this.lastSeq,
+      mutation,
+      attempts: 0,
+      nextAttemptAt: 0,
+      createdAt: Date.now(),
+    };
+    this.entries = [...this.entries, entry];
+    this.persist(entry);
+    this.notify();
+    return entry;
+  }
+
+  // Clears the backoff left by connection failures, e.g. once the device is
+  // back online, so the next flush sends straight away
+  resetNetworkBackoff = (scope: string): void => {
+    const entry = this.getEntries(scope)[0];
+    if (!entry?.networkFailures) {
+      return;
+    }
+    const updated: OutboxEntry = { ...entry, networkFailures: 0, nextAttemptAt: 0 };
+    this.entries = this.entries.map(existing => (existing.id === entry.id ? updated : existing));
+    this.persist(updated);
+    this.notify();
+  }
+
+  // Replays pending entries for a scope in order. Stops at the first entry
+  // that cannot be sent yet so later changes never overtake earlier ones.
+  // onSnapshot receives the server state after each applied change.
+  flush = (
+    scope: string,
+    backend: GroceryListBackend,
+    onSnapshot?: (items: GroceryItem[]) => void
+  ): Promise<FlushResult> => {
+    const running = this.flushing.get(scope);
+    if (running) {
+      return running;
+    }
+
+    const run = this.runFlush(scope, backend, onSnapshot).finally(() => {
+      this.flushing.delete(scope);
+    });
+    this.flushing.set(scope, run);
+    return run;
+  }
+
+  private runFlush = async (
+    scope: string,
+    backend: GroceryListBackend,
+    onSnapshot?: (items: GroceryItem[]) => void
+  ): Promise<FlushResult> => {
+    const result: FlushResult = { applied: 0, conflicts: [], failed: [] };
+    await this.ready;
+
+    if (!navigator.onLine || this.getEntries(scope).length === 0) {
+      return result;
+    }
+
+    let current: GroceryItem[];
+    try {
+      current = await backend.getGroceryItems();
+    } catch (error) {
+      console.error('Unable to load current items before replaying outbox:', error);
+      this.deferFirst(scope, error);
+      this.notify();
+      return result;
+    }
+
+    // Re-read the queue each time so changes made during the flush are sent too
+    for (let entry = this.getEntries(scope)[0]; entry; entry = this.getEntries(scope)[0]) {
+      if (entry.nextAttemptAt > Date.now()) {
+        break;
+      }
+
+      const mutation = rebaseMutation(entry.mutation, current);
+      const conflict = detectConflict(mutation, current);
+      if (conflict === 'skip') {
+        console.log('Outbox entry already applied, skipping:', entry);
+        this.remove(entry);
+        continue;
+      }
+      if (conflict) {
+        console.warn('Outbox entry conflicts with current sheet state:', entry, conflict);
+        result.conflicts.push({
+          entry,
+          reason: conflict,
+          current: mutation.type === 'update' ? current.find(item => item.id === mutation.item.id) ?? null : undefined,
+        });
+        this.remove(entry);
+        continue;
+      }
+
+      try {
+        await sendMutation(backend, mutation, current);
+        current = applyMutation(current, mutation);
+        result.applied++;
+        onSnapshot?.(current);
+        this.remove(entry);
+      } catch (error) {
+        console.error('Error replaying outbox entry:', entry, error);
+        // Changed elsewhere between the check above and the write
+        if (error instanceof ConcurrentEditError) {
+          result.conflicts.push({ entry, reason: error.message, current: error.current });
+          this.remove(entry);
+          const stored = error.current;
+          current = stored
+            ? current.map(item => (item.id === stored.id ? stored : item))
+            : current.filter(item => mutation.type !== 'update' || item.id !== mutation.item.id);
+          continue;
+        }
+        if (isTransientError(error)) {
+          this.deferFirst(scope, error);
+          break;
+        }
+
+        const updated: OutboxEntry = {
+          ...entry,
+          attempts: entry.attempts + 1,
+          nextAttemptAt: Date.now() + retryDelay(entry.attempts + 1),
+          lastError: error instanceof Error ? error.message : String(error),
+        };
+        if (updated.attempts >= MAX_ATTEMPTS) {
+          result.failed.push(updated);
+          this.remove(entry);
+          continue;
+        }
+
+        this.entries = this.entries.map(existing => (existing.id === entry.id ? updated : existing));
+        this.persist(updated);
+        break;
+      }
+    }
+
+    this.notify();
+    return result;
+  }
+}
+
+export const mutationQueue = new MutationQueue();
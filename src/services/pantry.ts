@@ -0,0 +1,120 @@
+import { normalizeItemName } from '@/lib/itemNames';
+import {
+  addQuantities,
+  convertQuantity,
+  decrementQuantity,
+  formatQuantity,
+  parseQuantity,
+  type Quantity,
+} from '@/lib/quantity';
+import type { GroceryItem } from './groceryListBackend';
+import { profileScope, type ConnectionProfile } from './profiles';
+
+// The pantry records what is already at home. Bought items move in when
+// checked-off items are cleared from the list, and items that drop to their
+// "running low" threshold are put back on the list. Kept on this device,
+// separately for each profile.
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  quantity: string;
+  category?: string;
+  // YYYY-MM-DD
+  expiresOn?: string;
+  // Quantity at or below which the item goes back on the list, e.g. "1" or "200 g"
+  lowThreshold?: string;
+  updatedAt: string;
+}
+
+const PANTRY_KEY = 'pantryItems';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An item with no quantity counts as one
+const ONE: Quantity = { amount: 1, unit: '' };
+
+const quantityOf = (text: string | undefined): Quantity | null => (text?.trim() ? parseQuantity(text) : ONE);
+
+export const loadPantry = (profile: ConnectionProfile): PantryItem[] => {
+  try {
+    return JSON.parse(localStorage.getItem(profileScope(profile, PANTRY_KEY)) || '[]');
+  } catch (error) {
+    console.error('Error parsing pantry items:', error);
+    return [];
+  }
+};
+
+export const savePantry = (profile: ConnectionProfile, items: PantryItem[]): void => {
+  localStorage.setItem(profileScope(profile, PANTRY_KEY), JSON.stringify(items));
+};
+
+export const findPantryItem = (pantry: PantryItem[], name: string): PantryItem | undefined => {
+  const key = normalizeItemName(name);
+  return pantry.find(item => normalizeItemName(item.name) === key);
+};
+
+// Adds bought grocery items to the pantry, topping up the quantity of
+// anything already there. Quantities in units that cannot be added together
+// ("1 bag" onto "500 g") replace the old amount.
+export const stockPantry = (pantry: PantryItem[], bought: GroceryItem[]): PantryItem[] => {
+  const updatedAt = new Date().toISOString();
+  return bought.reduce((items, item) => {
+    const existing = findPantryItem(items, item.name);
+    if (!existing) {
+      return [...items, {
+        id: crypto.randomUUID(),
+        name: item.name,
+        quantity: item.quantity || '',
+        category: item.category || '',
+        updatedAt,
+      }];
+    }
+
+    const current = quantityOf(existing.quantity);
+    const added = quantityOf(item.quantity);
+    const total = current && added ? addQuantities(current, added) : null;
+    const quantity = total ? formatQuantity(total) : item.quantity || existing.quantity;
+    return items.map(pantryItem => (
+      pantryItem.id === existing.id
+        ? { ...pantryItem, quantity, category: pantryItem.category || item.category || '', updatedAt }
+        : pantryItem
+    ));
+  }, pantry);
+};
+
+// Quantity after using one, or null when the item is not used up one at a
+// time (weights and volumes are edited instead)
+export const quantityAfterUsingOne = (item: PantryItem): string | null => {
+  const current = quantityOf(item.quantity);
+  const remaining = current ? decrementQuantity(current) : null;
+  return remaining ? formatQuantity(remaining) : null;
+};
+
+export const isRunningLow = (item: PantryItem): boolean => {
+  const threshold = item.lowThreshold?.trim() ? parseQuantity(item.lowThreshold) : null;
+  const current = quantityOf(item.quantity);
+  if (!threshold || !current) {
+    return false;
+  }
+  const comparable = convertQuantity(current, threshold.unit);
+  return comparable !== null && comparable.amount <= threshold.amount;
+};
+
+// Whole days until the expiry date (negative once expired), or null if unset
+export const daysUntilExpiry = (item: PantryItem, today: Date = new Date()): number | null => {
+  if (!item.expiresOn) {
+    return null;
+  }
+  const [year, month, day] = item.expiresOn.split('-').map(Number);
+  const expiry = new Date(year, month - 1, day);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry.getTime() - start.getTime()) / DAY_MS);
+};
+
+// Soonest expiry first, then by name
+export const sortPantry = (items: PantryItem[]): PantryItem[] =>
+  [...items].sort((a, b) => {
+    const aDays = daysUntilExpiry(a) ?? Infinity;
+    const bDays = daysUntilExpiry(b) ?? Infinity;
+    return aDays - bDays || a.name.localeCompare(b.name);
+  });
@@ -0,0 +1,95 @@
+import { normalizeItemName } from '@/lib/itemNames';
+import { itemCost } from '@/lib/prices';
+import type { GroceryItem } from './groceryListBackend';
+import { profileScope, type ConnectionProfile } from './profiles';
+
+// The last price paid for each item at each store, so items without a price
+// of their own can still be estimated. Filled in when checked-off items are
+// cleared. Kept on this device, separately for each profile, since
+// different households pay different prices.
+
+export interface PaidPrice {
+  price: number;
+  // ISO timestamp
+  at: string;
+}
+
+// Normalized item name -> store ID ('' when not shopping at a store) -> price
+export type PriceBook = Record<string, Record<string, PaidPrice>>;
+
+export interface CostEstimate {
+  total: number;
+  byCategory: { category: string; total: number }[];
+  // Items with neither a price nor a remembered one
+  unpriced: number;
+}
+
+const PRICE_BOOK_KEY = 'lastPaidPrices';
+const NO_STORE = '';
+
+export const loadPriceBook = (profile: ConnectionProfile): PriceBook => {
+  try {
+    return JSON.parse(localStorage.getItem(profileScope(profile, PRICE_BOOK_KEY)) || '{}');
+  } catch (error) {
+    console.error('Error parsing price book:', error);
+    return {};
+  }
+};
+
+export const recordPaidPrices = (
+  profile: ConnectionProfile,
+  items: GroceryItem[],
+  storeId: string | null
+): PriceBook => {
+  const book = loadPriceBook(profile);
+  const at = new Date().toISOString();
+  items
+    .filter(item => item.price !== undefined)
+    .forEach(item => {
+      const key = normalizeItemName(item.name);
+      book[key] = { ...book[key], [storeId || NO_STORE]: { price: item.price as number, at } };
+    });
+  localStorage.setItem(profileScope(profile, PRICE_BOOK_KEY), JSON.stringify(book));
+  return book;
+};
+
+// The price paid at this store, or failing that the latest price anywhere
+export const lastPaidPrice = (book: PriceBook, name: string, storeId: string | null): PaidPrice | null => {
+  const prices = book[normalizeItemName(name)];
+  if (!prices) {
+    return null;
+  }
+  if (storeId && prices[storeId]) {
+    return prices[storeId];
+  }
+  return Object.values(prices).sort((a, b) => b.at.localeCompare(a.at))[0] ?? null;
+};
+
+export const priceFor = (book: PriceBook, item: GroceryItem, storeId: string | null): number | null =>
+  item.price ?? lastPaidPrice(book, item.name, storeId)?.price ?? null;
+
+export const estimateCost = (items: GroceryItem[], book: PriceBook, storeId: string | null): CostEstimate => {
+  const byCategory = new Map<string, number>();
+  let total = 0;
+  let unpriced = 0;
+
+  items.forEach(item => {
+    const price = priceFor(book, item, storeId);
+    if (price === null) {
+      unpriced++;
+      return;
+    }
+    const cost = itemCost(item, price);
+    const category = item.category || 'Uncategorized';
+    total += cost;
+    byCategory.set(category, (byCategory.get(category) ?? 0) + cost);
+  });
+
+  return {
+    total,
+    byCategory: [...byCategory.entries()]
+      .map(([category, categoryTotal]) => ({ category, total: categoryTotal }))
+      .sort((a, b) => b.total - a.total),
+    unpriced,
+  };
+};
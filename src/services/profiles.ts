@@ -0,0 +1,107 @@
+import type { BackendType } from './groceryListBackend';
+
+// How a Google Sheets profile gets its access tokens: a service account key,
+// or a normal Google user signing in (OAuth authorization code with PKCE)
+export type AuthMode = 'serviceAccount' | 'oauth';
+
+// A connection profile bundles everything needed to open one list store:
+// which backend to use and, for Google Sheets, the spreadsheet, the tab to
+// open and the credentials. Several profiles can be saved (a household
+// sheet and a work-kitchen sheet, say) and one of them is active.
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  backendType: BackendType;
+  sheetId: string;
+  sheetName: string;
+  serviceAccountKey: string;
+  // Profiles saved before user sign-in existed have no auth fields and use
+  // the service account
+  authMode?: AuthMode;
+  oauthClientId?: string;
+  // Only needed for OAuth clients of the "Web application" type
+  oauthClientSecret?: string;
+  oauthRefreshToken?: string;
+  oauthEmail?: string;
+}
+
+// Fields holding credentials, which are kept encrypted at rest
+export const SECRET_FIELDS = ['serviceAccountKey', 'oauthClientSecret', 'oauthRefreshToken'] as const;
+export type SecretField = (typeof SECRET_FIELDS)[number];
+
+const PROFILES_KEY = 'connectionProfiles';
+const ACTIVE_PROFILE_KEY = 'activeProfileId';
+
+// The profile created from the settings saved before profiles existed. Its
+// data keeps the original storage keys so nothing has to be moved.
+export const DEFAULT_PROFILE_ID = 'default';
+
+const BACKEND_TYPES: BackendType[] = ['googleSheets', 'localStorage', 'memory'];
+
+const legacyProfile = (): ConnectionProfile => {
+  const storedBackend = localStorage.getItem('groceryBackend') as BackendType;
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: 'My list',
+    backendType: BACKEND_TYPES.includes(storedBackend) ? storedBackend : 'googleSheets',
+    sheetId: localStorage.getItem('googleSheetsId') || '',
+    sheetName: localStorage.getItem('googleSheetsName') || 'Sheet1',
+    serviceAccountKey: localStorage.getItem('serviceAccountKey') || '',
+  };
+};
+
+export const saveProfiles = (profiles: ConnectionProfile[]): void => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadProfiles = (): ConnectionProfile[] => {
+  const stored = localStorage.getItem(PROFILES_KEY);
+  if (stored) {
+    try {
+      const profiles: ConnectionProfile[] = JSON.parse(stored);
+      if (profiles.length > 0) {
+        return profiles;
+      }
+    } catch (error) {
+      console.error('Error parsing connection profiles:', error);
+    }
+  }
+
+  // First run with profiles: carry the existing settings over
+  const profiles = [legacyProfile()];
+  saveProfiles(profiles);
+  return profiles;
+};
+
+export const getProfile = (profileId: string): ConnectionProfile | undefined =>
+  loadProfiles().find(profile => profile.id === profileId);
+
+export const updateProfile = (profileId: string, changes: Partial<Omit<ConnectionProfile, 'id'>>): void => {
+  saveProfiles(loadProfiles().map(profile => (profile.id === profileId ? { ...profile, ...changes } : profile)));
+};
+
+export const createProfile = (name: string): ConnectionProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  backendType: 'googleSheets',
+  sheetId: '',
+  sheetName: 'Sheet1',
+  serviceAccountKey: '',
+  authMode: 'serviceAccount',
+});
+
+export const getActiveProfile = (): ConnectionProfile => {
+  const profiles = loadProfiles();
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.find(profile => profile.id === activeId) ?? profiles[0];
+};
+
+export const setActiveProfileId = (profileId: string): void => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+};
+
+// Prefixes a cache or outbox scope with the profile so two profiles never
+// share cached items or queued changes. The default profile keeps the bare
+// scope, so changes queued before profiles existed still replay.
+export const profileScope = (profile: ConnectionProfile, scope: string): string =>
+  profile.id === DEFAULT_PROFILE_ID ? scope : `${profile.id}:${scope}`;
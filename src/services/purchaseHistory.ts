@@ -0,0 +1,108 @@
+import { idbGetAll, idbPutAll } from '@/lib/idb';
+import { normalizeItemName } from '@/lib/itemNames';
+import type { GroceryItem } from './groceryListBackend';
+import type { ConnectionProfile } from './profiles';
+
+// A log of everything that has left the list, kept in IndexedDB on this
+// device: items cleared after being checked off count as purchased, items
+// deleted from the list as removed. Used for the history page and for
+// "buy again" suggestions.
+
+export type HistoryKind = 'purchased' | 'removed';
+
+export interface HistoryEntry {
+  id: string;
+  profileId: string;
+  listName: string;
+  name: string;
+  quantity: string;
+  category: string;
+  kind: HistoryKind;
+  // ISO timestamp
+  at: string;
+}
+
+export interface BuyAgainSuggestion {
+  name: string;
+  quantity: string;
+  category: string;
+  count: number;
+  lastAt: string;
+  score: number;
+}
+
+const STORE_NAME = 'purchaseHistory';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A purchase counts half as much after this many days
+const RECENCY_HALF_LIFE_DAYS = 30;
+// Deleting an item is a weaker signal than buying it
+const KIND_WEIGHT: Record<HistoryKind, number> = { purchased: 1, removed: 0.5 };
+
+export const recordHistory = async (
+  profile: ConnectionProfile,
+  listName: string,
+  items: GroceryItem[],
+  kind: HistoryKind
+): Promise<void> => {
+  const at = new Date().toISOString();
+  try {
+    await idbPutAll<HistoryEntry>(STORE_NAME, items.map(item => ({
+      id: crypto.randomUUID(),
+      profileId: profile.id,
+      listName,
+      name: item.name,
+      quantity: item.quantity || '',
+      category: item.category || '',
+      kind,
+      at,
+    })));
+  } catch (error) {
+    // History is a convenience; never let it get in the way of the list
+    console.error('Error recording purchase history:', error);
+  }
+};
+
+// Newest first
+export const loadHistory = async (profile: ConnectionProfile): Promise<HistoryEntry[]> => {
+  const entries = await idbGetAll<HistoryEntry>(STORE_NAME);
+  return entries
+    .filter(entry => entry.profileId === profile.id)
+    .sort((a, b) => b.at.localeCompare(a.at));
+};
+
+// Ranks past items by how often and how recently they left the list. Each
+// entry adds a weight that halves every RECENCY_HALF_LIFE_DAYS, so a weekly
+// staple beats something bought once last year. Items whose normalized name
+// is in `exclude` (already on the list) are skipped.
+export const rankBuyAgain = (
+  entries: HistoryEntry[],
+  exclude: Set<string>,
+  limit: number = 8,
+  now: number = Date.now()
+): BuyAgainSuggestion[] => {
+  const suggestions = new Map<string, BuyAgainSuggestion>();
+
+  // Oldest first, so the latest entry's name and quantity win
+  [...entries].sort((a, b) => a.at.localeCompare(b.at)).forEach(entry => {
+    const key = normalizeItemName(entry.name);
+    if (!key || exclude.has(key)) {
+      return;
+    }
+
+    const ageDays = Math.max(now - new Date(entry.at).getTime(), 0) / DAY_MS;
+    const weight = KIND_WEIGHT[entry.kind] * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+    const existing = suggestions.get(key);
+    suggestions.set(key, {
+      name: entry.name,
+      quantity: entry.quantity,
+      category: entry.category || existing?.category || '',
+      count: (existing?.count ?? 0) + 1,
+      lastAt: entry.at,
+      score: (existing?.score ?? 0) + weight,
+    });
+  });
+
+  return [...suggestions.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
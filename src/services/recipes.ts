@@ -0,0 +1,48 @@
+import { formatQuantity, parseQuantity, scaleQuantity } from '@/lib/quantity';
+import { profileScope, type ConnectionProfile } from './profiles';
+
+// Saved recipes, kept on this device separately for each profile. Each
+// ingredient keeps the line it was parsed from so the review screen can
+// show what the recipe actually said.
+
+export interface RecipeIngredient {
+  id: string;
+  name: string;
+  // Quantity for the recipe's own number of servings, '' when none
+  quantity: string;
+  original: string;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  createdAt: string;
+}
+
+const RECIPES_KEY = 'recipes';
+export const DEFAULT_SERVINGS = 4;
+
+export const loadRecipes = (profile: ConnectionProfile): Recipe[] => {
+  try {
+    return JSON.parse(localStorage.getItem(profileScope(profile, RECIPES_KEY)) || '[]');
+  } catch (error) {
+    console.error('Error parsing recipes:', error);
+    return [];
+  }
+};
+
+export const saveRecipes = (profile: ConnectionProfile, recipes: Recipe[]): void => {
+  localStorage.setItem(profileScope(profile, RECIPES_KEY), JSON.stringify(recipes));
+};
+
+// The ingredient's quantity for a different number of servings. Quantities
+// that cannot be read ("a handful") are left as written.
+export const scaleIngredientQuantity = (quantity: string, fromServings: number, toServings: number): string => {
+  const parsed = parseQuantity(quantity);
+  if (!parsed || fromServings <= 0 || fromServings === toServings) {
+    return quantity;
+  }
+  return formatQuantity(scaleQuantity(parsed, toServings / fromServings));
+};
@@ -0,0 +1,144 @@
+import { normalizeItemName } from '@/lib/itemNames';
+import type { HistoryEntry } from './purchaseHistory';
+import { profileScope, type ConnectionProfile } from './profiles';
+
+// Learns how often each item is bought from the purchase history and flags
+// the ones that are due again. The typical interval is the median gap
+// between purchases, so one long holiday or a double shop does not throw
+// it off. Everything stays on this device.
+
+export interface RecurringItem {
+  key: string;
+  name: string;
+  quantity: string;
+  category: string;
+  // Median days between purchases
+  intervalDays: number;
+  daysSinceLast: number;
+  // Timestamp of the latest purchase; a dismissal lasts until this changes
+  lastAt: string;
+  reason: string;
+}
+
+const DISMISSED_KEY = 'dismissedReminders';
+const AUTO_ADD_KEY = 'autoAddReminders';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Need at least this many gaps between purchases before predicting
+const MIN_INTERVALS = 2;
+// Only the latest gaps count, so the estimate follows changing habits
+const MAX_INTERVALS = 8;
+// Suggest a little before the usual interval is up
+const DUE_FRACTION = 0.9;
+// Long overdue items have probably been dropped rather than forgotten
+const STALE_FACTOR = 3;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const formatDays = (days: number): string => {
+  if (days >= 14 && days % 7 < 2) {
+    const weeks = Math.round(days / 7);
+    return `${weeks} weeks`;
+  }
+  return days === 1 ? '1 day' : `${days} days`;
+};
+
+const describe = (daysSinceLast: number, intervalDays: number): string => {
+  const since = Math.round(daysSinceLast);
+  const interval = Math.max(Math.round(intervalDays), 1);
+  const last = since === 0 ? 'Last bought today' : `Last bought ${formatDays(since)} ago`;
+  return interval === 1 ? `${last}, usually every day` : `${last}, usually every ${formatDays(interval)}`;
+};
+
+// Items bought regularly enough to predict, with their typical interval
+export const estimateCadence = (entries: HistoryEntry[], now: number = Date.now()): RecurringItem[] => {
+  const purchases = new Map<string, HistoryEntry[]>();
+  entries
+    .filter(entry => entry.kind === 'purchased')
+    .forEach(entry => {
+      const key = normalizeItemName(entry.name);
+      if (key) {
+        purchases.set(key, [...(purchases.get(key) ?? []), entry]);
+      }
+    });
+
+  const items: RecurringItem[] = [];
+  purchases.forEach((itemEntries, key) => {
+    const sorted = [...itemEntries].sort((a, b) => a.at.localeCompare(b.at));
+    // Several entries within a day are one shop
+    const times = sorted
+      .map(entry => new Date(entry.at).getTime())
+      .filter((time, index, all) => index === 0 || time - all[index - 1] >= DAY_MS / 2);
+    const intervals = times
+      .slice(1)
+      .map((time, index) => (time - times[index]) / DAY_MS)
+      .slice(-MAX_INTERVALS);
+    if (intervals.length < MIN_INTERVALS) {
+      return;
+    }
+
+    const latest = sorted[sorted.length - 1];
+    const intervalDays = median(intervals);
+    const daysSinceLast = Math.max(now - times[times.length - 1], 0) / DAY_MS;
+    items.push({
+      key,
+      name: latest.name,
+      quantity: latest.quantity,
+      category: latest.category,
+      intervalDays,
+      daysSinceLast,
+      lastAt: latest.at,
+      reason: describe(daysSinceLast, intervalDays),
+    });
+  });
+  return items;
+};
+
+// Regular items that are due again, most overdue first. Items on the list
+// (by normalized name) and dismissed ones are left out.
+export const findDueItems = (
+  entries: HistoryEntry[],
+  exclude: Set<string>,
+  dismissed: Record<string, string>,
+  now: number = Date.now()
+): RecurringItem[] =>
+  estimateCadence(entries, now)
+    .filter(item => (
+      !exclude.has(item.key) &&
+      dismissed[item.key] !== item.lastAt &&
+      item.daysSinceLast >= item.intervalDays * DUE_FRACTION &&
+      item.daysSinceLast <= item.intervalDays * STALE_FACTOR
+    ))
+    .sort((a, b) => b.daysSinceLast / b.intervalDays - a.daysSinceLast / a.intervalDays);
+
+// Normalized name -> lastAt of the purchase the dismissal applies to
+export const loadDismissedReminders = (profile: ConnectionProfile): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(profileScope(profile, DISMISSED_KEY)) || '{}');
+  } catch (error) {
+    console.error('Error parsing dismissed reminders:', error);
+    return {};
+  }
+};
+
+export const dismissReminders = (
+  profile: ConnectionProfile,
+  items: RecurringItem[]
+): Record<string, string> => {
+  const dismissed = loadDismissedReminders(profile);
+  items.forEach(item => {
+    dismissed[item.key] = item.lastAt;
+  });
+  localStorage.setItem(profileScope(profile, DISMISSED_KEY), JSON.stringify(dismissed));
+  return dismissed;
+};
+
+export const getAutoAddReminders = (profile: ConnectionProfile): boolean =>
+  localStorage.getItem(profileScope(profile, AUTO_ADD_KEY)) === 'true';
+
+export const setAutoAddReminders = (profile: ConnectionProfile, enabled: boolean): void => {
+  localStorage.setItem(profileScope(profile, AUTO_ADD_KEY), String(enabled));
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { GroceryItem } from './groceryListBackend';
+import { diffItems, isEmptyDiff, mergeRemoteItems, nextPollDelay, type SyncHold } from './syncEngine';
+
+const item = (id: string, name: string, quantity = ''): GroceryItem => ({
+  id,
+  name,
+  quantity,
+  category: '',
+  checked: false,
+});
+
+const noHold: SyncHold = { itemIds: new Set(), order: false };
+
+describe('diffItems', () => {
+  it('finds added, removed and changed items', () => {
+    const milk = item('1', 'milk');
+    const eggs = item('2', 'eggs');
+    const bread = item('3', 'bread');
+    const moreMilk = { ...milk, quantity: '2' };
+
+    expect(diffItems([milk, eggs], [moreMilk, bread])).toEqual({
+      added: [bread],
+      removed: [eggs],
+      changed: [{ previous: milk, item: moreMilk }],
+      reordered: false,
+    });
+  });
+
+  it('notices a change of order among the shared items', () => {
+    const milk = item('1', 'milk');
+    const eggs = item('2', 'eggs');
+
+    expect(diffItems([milk, eggs], [eggs, milk]).reordered).toBe(true);
+    expect(diffItems([milk, eggs], [milk, item('3', 'bread'), eggs]).reordered).toBe(false);
+  });
+
+  it('is empty when nothing changed', () => {
+    expect(isEmptyDiff(diffItems([item('1', 'milk')], [item('1', 'milk')]))).toBe(true);
+  });
+});
+
+describe('mergeRemoteItems', () => {
+  it('keeps the objects of unchanged items', () => {
+    const milk = item('1', 'milk');
+    const eggs = item('2', 'eggs');
+    const merged = mergeRemoteItems([milk, eggs], [item('1', 'milk'), item('2', 'eggs', '12')], noHold);
+
+    expect(merged[0]).toBe(milk);
+    expect(merged[1]).toEqual(item('2', 'eggs', '12'));
+  });
+
+  it('follows the remote order when the order is not held', () => {
+    const milk = item('1', 'milk');
+    const eggs = item('2', 'eggs');
+
+    expect(mergeRemoteItems([milk, eggs], [eggs, milk], noHold)).toEqual([eggs, milk]);
+  });
+
+  it('keeps the local version of held items, even when removed elsewhere', () => {
+    const milk = item('1', 'milk', '2');
+    const eggs = item('2', 'eggs');
+    const hold: SyncHold = { itemIds: new Set(['1', '2']), order: false };
+    const merged = mergeRemoteItems([milk, eggs], [item('1', 'milk', '3')], hold);
+
+    expect(merged).toEqual([milk, eggs]);
+    expect(merged[0]).toBe(milk);
+  });
+
+  it('keeps the local order while it is held, adding new items at the end', () => {
+    const milk = item('1', 'milk');
+    const eggs = item('2', 'eggs');
+    const bread = item('3', 'bread');
+    const hold: SyncHold = { itemIds: new Set(), order: true };
+
+    expect(mergeRemoteItems([milk, eggs], [bread, eggs, milk], hold)).toEqual([milk, eggs, bread]);
+  });
+});
+
+describe('nextPollDelay', () => {
+  it.each([
+    [0, 5000],
+    [1, 10000],
+    [3, 40000],
+    [4, 60000],
+    [10, 60000],
+  ])('backs off from 5 s to 60 s while visible (%i quiet polls)', (quietPolls, delay) => {
+    expect(nextPollDelay(quietPolls, true, true)).toBe(delay);
+  });
+
+  it.each([
+    [0, 2 * 60 * 1000],
+    [2, 8 * 60 * 1000],
+    [3, 15 * 60 * 1000],
+  ])('backs off from 2 to 15 minutes in the background (%i quiet polls)', (quietPolls, delay) => {
+    expect(nextPollDelay(quietPolls, false, true)).toBe(delay);
+    expect(nextPollDelay(quietPolls, false, false)).toBe(delay);
+  });
+
+  it('starts from 30 s without a revision marker', () => {
+    expect(nextPollDelay(0, true, false)).toBe(30000);
+    expect(nextPollDelay(5, true, false)).toBe(60000);
+  });
+});
@@ -0,0 +1,110 @@
+import { sameItemContents, type GroceryItem } from './groceryListBackend';
+
+// Keeps the list on screen in step with the backend without replacing it
+// wholesale. Each poll first asks the backend for a cheap revision marker and
+// only fetches the items when it has moved; the fetched items are then
+// diffed against the last fetch and merged in item by item, so unchanged
+// rows keep their identity and rows the user is dragging or editing are left
+// where they are until they let go.
+
+export interface ItemDiff {
+  added: GroceryItem[];
+  removed: GroceryItem[];
+  changed: { previous: GroceryItem; item: GroceryItem }[];
+  // The items both lists share are in a different order
+  reordered: boolean;
+}
+
+export interface SyncHold {
+  // Items being dragged or edited, which keep their local version
+  itemIds: Set<string>;
+  // Keep the local order too, e.g. while any drag is in progress
+  order: boolean;
+}
+
+// Polling starts at the active interval and doubles after every poll that
+// finds nothing new, up to the idle cap. In the background it starts again
+// from the background interval, so a hidden tab costs next to nothing.
+const ACTIVE_INTERVAL = 5000;
+const IDLE_INTERVAL = 60 * 1000;
+const BACKGROUND_INTERVAL = 2 * 60 * 1000;
+const MAX_BACKGROUND_INTERVAL = 15 * 60 * 1000;
+// Without a revision marker every poll is a full read, so poll no more often
+// than the old fixed refresh did
+const FULL_FETCH_INTERVAL = 30 * 1000;
+// A revision marker can miss edits made straight in the sheet that leave
+// its fingerprint alone, so the items are fetched in full this often anyway
+const FULL_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+export const diffItems = (previous: GroceryItem[], next: GroceryItem[]): ItemDiff => {
+  const previousById = new Map(previous.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+
+  const added = next.filter(item => !previousById.has(item.id));
+  const removed = previous.filter(item => !nextIds.has(item.id));
+  const changed = next.flatMap(item => {
+    const before = previousById.get(item.id);
+    return before && !sameItemContents(before, item) ? [{ previous: before, item }] : [];
+  });
+
+  const sharedBefore = previous.filter(item => nextIds.has(item.id)).map(item => item.id);
+  const sharedAfter = next.filter(item => previousById.has(item.id)).map(item => item.id);
+  const reordered = sharedBefore.some((id, index) => sharedAfter[index] !== id);
+
+  return { added, removed, changed, reordered };
+};
+
+export const isEmptyDiff = (diff: ItemDiff): boolean =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && !diff.reordered;
+
+// Merges freshly fetched items into the items on screen. Unchanged items keep
+// their existing objects so React can skip them. Held items keep their local
+// version and are not removed; with the order held, items stay where they
+// are and new ones go on the end.
+export const mergeRemoteItems = (
+  current: GroceryItem[],
+  remote: GroceryItem[],
+  hold: SyncHold
+): GroceryItem[] => {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const remoteById = new Map(remote.map(item => [item.id, item]));
+
+  const pick = (item: GroceryItem): GroceryItem => {
+    const existing = currentById.get(item.id);
+    if (existing && (hold.itemIds.has(item.id) || sameItemContents(existing, item))) {
+      return existing;
+    }
+    return item;
+  };
+
+  if (hold.order) {
+    return [
+      ...current
+        .filter(item => remoteById.has(item.id) || hold.itemIds.has(item.id))
+        .map(item => pick(remoteById.get(item.id) ?? item)),
+      ...remote.filter(item => !currentById.has(item.id)),
+    ];
+  }
+
+  // Held items that were removed elsewhere stay in their old place for now
+  const merged = remote.map(pick);
+  current.forEach((item, index) => {
+    if (hold.itemIds.has(item.id) && !remoteById.has(item.id)) {
+      merged.splice(Math.min(index, merged.length), 0, item);
+    }
+  });
+  return merged;
+};
+
+export const isFetchStale = (fetchedAt: number, now: number = Date.now()): boolean =>
+  now - fetchedAt >= FULL_REFRESH_INTERVAL;
+
+// How long to wait before the next poll. `quietPolls` counts the polls in a
+// row that found nothing new.
+export const nextPollDelay = (quietPolls: number, visible: boolean, hasRevision: boolean): number => {
+  if (!visible) {
+    return Math.min(BACKGROUND_INTERVAL * 2 ** quietPolls, MAX_BACKGROUND_INTERVAL);
+  }
+  const base = hasRevision ? ACTIVE_INTERVAL : FULL_FETCH_INTERVAL;
+  return Math.min(base * 2 ** quietPolls, Math.max(IDLE_INTERVAL, base));
+};